@@ -1,12 +1,17 @@
 import cors from "@fastify/cors";
 import Fastify from "fastify";
+import { PlanWorkerPool, type PlanWorkerPoolOptions } from "./planning/plan-pool";
+import { ReservationSweeper, type ReservationSweeperOptions } from "./planning/reservation-sweeper";
 import { registerInventoryRoutes } from "./routes/inventory";
 import { registerOrdersRoutes } from "./routes/orders";
+import { registerPlansRoutes } from "./routes/plans";
 import type { PlanStore } from "./db/types";
 
 type BuildAppOptions = {
   corsOrigins: string[];
   store: PlanStore;
+  planner: PlanWorkerPoolOptions;
+  sweeper: ReservationSweeperOptions;
 };
 
 export async function buildApp(options: BuildAppOptions) {
@@ -25,12 +30,27 @@ export async function buildApp(options: BuildAppOptions) {
       }
 
       callback(new Error("CORS origin denied"), false);
-    }
+    },
+    methods: ["GET", "HEAD", "POST", "PATCH", "DELETE"]
+  });
+
+  const planner = new PlanWorkerPool(options.planner);
+  app.addHook("onClose", async () => {
+    await planner.close();
+  });
+
+  const sweeper = new ReservationSweeper(options.store, options.sweeper, app.log);
+  app.addHook("onReady", async () => {
+    sweeper.start();
+  });
+  app.addHook("onClose", async () => {
+    await sweeper.stop();
   });
 
   app.get("/materials", async () => ({ ok: true }));
-  await registerInventoryRoutes(app, { store: options.store });
-  await registerOrdersRoutes(app, { store: options.store });
+  await registerInventoryRoutes(app, { store: options.store, planner });
+  await registerOrdersRoutes(app, { store: options.store, planner });
+  await registerPlansRoutes(app, { store: options.store });
 
   return app;
 }
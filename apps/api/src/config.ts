@@ -1,7 +1,6 @@
-const port = Number(process.env.PORT ?? 4000);
-if (!Number.isInteger(port) || port <= 0) {
-  throw new Error("PORT must be a positive integer");
-}
+import os from "node:os";
+
+const port = readPositiveInt("PORT", 4000);
 
 const databaseUrl = process.env.DATABASE_URL;
 
@@ -10,8 +9,34 @@ const corsOrigins = (process.env.CORS_ORIGINS ?? "http://localhost:3000,http://l
   .map((origin) => origin.trim())
   .filter(Boolean);
 
+// One core is left to the event loop.
+const planWorkers = readPositiveInt("PLAN_WORKERS", Math.max(1, Math.min(4, os.availableParallelism() - 1)));
+const planTimeoutMs = readPositiveInt("PLAN_TIMEOUT_MS", 15_000);
+const planMaxPieces = readPositiveInt("PLAN_MAX_PIECES", 5_000);
+const planReservationTtlMs = readPositiveInt("PLAN_RESERVATION_TTL_MS", 15 * 60_000);
+const planSweepIntervalMs = readPositiveInt("PLAN_SWEEP_INTERVAL_MS", 60_000);
+
 export const config = {
   port,
   databaseUrl,
-  corsOrigins
+  corsOrigins,
+  planner: {
+    size: planWorkers,
+    timeoutMs: planTimeoutMs,
+    maxPieces: planMaxPieces
+  },
+  store: {
+    reservationTtlMs: planReservationTtlMs
+  },
+  sweeper: {
+    intervalMs: planSweepIntervalMs
+  }
 };
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
@@ -2,23 +2,65 @@ import { randomUUID } from "crypto";
 import { existsSync } from "fs";
 import { mkdir, readFile, writeFile } from "fs/promises";
 import { dirname, resolve } from "path";
-import type { InventoryClass, InventoryItem } from "@cutting/contracts";
-import type { Allocation } from "@cutting/cutting-core";
-import { ConflictError, NotFoundError } from "../utils/errors";
-import type {
-  CommitPlanResult,
-  CreateOrderInput,
-  CreatePlanInput,
-  OrderQueueItem,
-  OrderQueueStatus,
-  PlanState,
-  PlanStore
+import {
+  canTransitionOrder,
+  type DefectZone,
+  inventoryAdjustmentReasonSchema,
+  type InventoryClass,
+  type InventoryClassSettings,
+  inventoryClassSchema,
+  type InventoryItem,
+  inventoryMovementTypeSchema,
+  type InventoryStock,
+  type InventoryWriteOffReason,
+  mergePlanParams,
+  type OrderPriority,
+  orderPrioritySchema,
+  orderQueueStatusSchema,
+  orderTransitionTriggerSchema,
+  type OrderTransitionTrigger,
+  planCostsPatchSchema,
+  planParamsPatchSchema,
+  planParamsSchema,
+  type ProductRecipe,
+  productRecipeSchema,
+  type SpliceOptions,
+  spliceOptionsSchema
+} from "@cutting/contracts";
+import { type Allocation, type CutPlanResult, type OrderLineMm, validateCutPlan } from "@cutting/cutting-core";
+import { ConflictError, InvalidPlanError, NotFoundError } from "../utils/errors";
+import {
+  type CancelOrderResult,
+  type ClassSettingsPatch,
+  type CommitPlanResult,
+  type CreateOrderInput,
+  type CreatePlanInput,
+  DEFAULT_RESERVATION_TTL_MS,
+  type InventoryAdjustmentInput,
+  type InventoryAdjustmentResult,
+  type InventoryMovement,
+  type InventoryMovementFilter,
+  type OrderPatch,
+  type OrderQueueItem,
+  type OrderQueueStatus,
+  type OrderStatusChange,
+  type OrderTransitionResult,
+  type PlanListFilter,
+  type PlanPart,
+  type PlanState,
+  type PlanStore,
+  type RevertPlanResult,
+  type StoredPlan,
+  type StoreOptions
 } from "./types";
 
-type MemoryPlan = CreatePlanInput & {
-  id: string;
-  status: PlanState;
-};
+type MemoryPlan = StoredPlan;
+
+/** The row's class, length and remnant flag are looked up when the ledger is read. */
+type MemoryMovement = Omit<InventoryMovement, "inventoryClass" | "lengthMm" | "remnant">;
+
+type MovementInput = Pick<MemoryMovement, "inventoryId" | "type" | "qtyDelta"> &
+  Partial<Pick<MemoryMovement, "planId" | "orderIds" | "reason" | "note">>;
 
 const DEFAULT_INVENTORY: Array<{ inventoryClass: InventoryClass; lengthMm: number; qty: number }> = [
   { inventoryClass: "Komarnici", lengthMm: 3000, qty: 5 },
@@ -29,12 +71,21 @@ const DEFAULT_INVENTORY: Array<{ inventoryClass: InventoryClass; lengthMm: numbe
 ];
 const DEFAULT_INVENTORY_CLASS: InventoryClass = "Komarnici";
 
+type RemnantSummary = {
+  inventoryClass: InventoryClass;
+  lengthMm: number;
+  qty: number;
+  defects: DefectZone[];
+};
+
 type PersistedMemoryState = {
   inventory: Array<{
     id: number;
     inventoryClass?: unknown;
     lengthMm: number;
     qty: number;
+    remnant?: unknown;
+    defects?: unknown;
   }>;
   orders?: Array<{
     id?: unknown;
@@ -44,29 +95,56 @@ type PersistedMemoryState = {
     qty?: unknown;
     widthOnly?: unknown;
     derivedFromWidth?: unknown;
+    priority?: unknown;
+    dueDate?: unknown;
     status?: unknown;
     createdAt?: unknown;
     acceptedAt?: unknown;
     acceptedPlanIds?: unknown;
+    cancelledAt?: unknown;
+    statusHistory?: unknown;
+  }>;
+  classSettings?: Array<{
+    inventoryClass?: unknown;
+    params?: unknown;
+    costs?: unknown;
+    purchasableLengthsMm?: unknown;
+    recipes?: unknown;
+    splicing?: unknown;
   }>;
+  plans?: PersistedPlan[];
+  movements?: Array<{ [K in keyof MemoryMovement]?: unknown }>;
   nextInventoryId: number;
 };
 
+type PersistedPlan = { [K in keyof StoredPlan]?: unknown };
+
 export class MemoryStore implements PlanStore {
   private inventoryById = new Map<number, InventoryItem>();
   private inventoryKeyIndex = new Map<string, number>();
   private plans = new Map<string, MemoryPlan>();
   private orders = new Map<string, OrderQueueItem>();
+  private classSettings = new Map<InventoryClass, InventoryClassSettings>();
+  private movements: MemoryMovement[] = [];
   private nextInventoryId = 1;
+  private nextMovementId = 1;
   private readonly stateFilePath = resolveMemoryStateFilePath();
+  private readonly reservationTtlMs: number;
+
+  constructor(options: Partial<StoreOptions> = {}) {
+    this.reservationTtlMs = options.reservationTtlMs ?? DEFAULT_RESERVATION_TTL_MS;
+  }
 
   async migrate(): Promise<void> {
     await this.loadPersistedState();
 
-    if (this.inventoryById.size === 0) {
+    const seeded = this.inventoryById.size === 0;
+    if (seeded) {
       for (const item of DEFAULT_INVENTORY) {
-        await this.addInventoryInternal(item.lengthMm, item.qty, item.inventoryClass, false);
+        await this.addInventoryInternal(item.lengthMm, item.qty, item.inventoryClass, false, []);
       }
+    }
+    if (this.recordOpeningBalances() > 0 || seeded) {
       await this.persistState();
     }
   }
@@ -75,26 +153,130 @@ export class MemoryStore implements PlanStore {
     return Promise.resolve();
   }
 
-  async listInventory(): Promise<InventoryItem[]> {
+  async listInventory(): Promise<InventoryStock[]> {
     this.repairLegacyInventory();
+    const reservedById = this.reservedBySource();
 
     return [...this.inventoryById.values()]
       .filter((item) => item.qty > 0)
-      .sort((a, b) => {
-        const classOrder = a.inventoryClass.localeCompare(b.inventoryClass);
-        if (classOrder !== 0) {
-          return classOrder;
-        }
-        return a.lengthMm - b.lengthMm;
-      });
+      .map((item) => {
+        const reservedQty = Math.min(item.qty, reservedById.get(item.id) ?? 0);
+        return { ...item, reservedQty, availableQty: item.qty - reservedQty };
+      })
+      .sort(compareInventory);
+  }
+
+  async listMovements(filter: InventoryMovementFilter): Promise<InventoryMovement[]> {
+    const movements: InventoryMovement[] = [];
+    for (const movement of this.movements) {
+      const stock = this.inventoryById.get(movement.inventoryId);
+      if (!stock) {
+        continue;
+      }
+      const createdAt = Date.parse(movement.createdAt);
+      if (
+        (filter.inventoryId === undefined || movement.inventoryId === filter.inventoryId) &&
+        (filter.inventoryClass === undefined || stock.inventoryClass === filter.inventoryClass) &&
+        (filter.lengthMm === undefined || stock.lengthMm === filter.lengthMm) &&
+        (filter.type === undefined || movement.type === filter.type) &&
+        (filter.planId === undefined || movement.planId === filter.planId) &&
+        (filter.orderId === undefined || movement.orderIds.includes(filter.orderId)) &&
+        (filter.reason === undefined || movement.reason === filter.reason) &&
+        (filter.from === undefined || createdAt >= filter.from.getTime()) &&
+        (filter.to === undefined || createdAt < filter.to.getTime())
+      ) {
+        movements.push({
+          ...movement,
+          orderIds: [...movement.orderIds],
+          inventoryClass: stock.inventoryClass,
+          lengthMm: stock.lengthMm,
+          remnant: stock.remnant
+        });
+      }
+    }
+
+    return movements
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
+  async inventoryAsOf(asOf: Date): Promise<InventoryItem[]> {
+    this.repairLegacyInventory();
+    const laterBySource = new Map<number, number>();
+    for (const movement of this.movements) {
+      if (Date.parse(movement.createdAt) > asOf.getTime()) {
+        laterBySource.set(movement.inventoryId, (laterBySource.get(movement.inventoryId) ?? 0) + movement.qtyDelta);
+      }
+    }
+
+    return [...this.inventoryById.values()]
+      .map((item) => ({ ...item, qty: item.qty - (laterBySource.get(item.id) ?? 0) }))
+      .filter((item) => item.qty > 0)
+      .sort(compareInventory);
   }
 
   async addInventory(
     lengthMm: number,
     qty: number,
-    inventoryClass: InventoryClass = DEFAULT_INVENTORY_CLASS
+    inventoryClass: InventoryClass = DEFAULT_INVENTORY_CLASS,
+    remnant = false,
+    defects: DefectZone[] = []
   ): Promise<void> {
-    await this.addInventoryInternal(lengthMm, qty, inventoryClass, true);
+    const inventoryId = await this.addInventoryInternal(lengthMm, qty, inventoryClass, remnant, defects);
+    this.recordMovement({ inventoryId, type: "ADDITION", qtyDelta: qty });
+    await this.persistState();
+  }
+
+  async removeInventory(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    return this.takeInventory(input);
+  }
+
+  async setInventoryQty(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    const stock = this.findInventory(input.inventoryId);
+    const previousQty = stock.qty;
+    stock.qty = input.qty;
+    this.recordMovement({
+      inventoryId: stock.id,
+      type: "ADJUSTMENT",
+      qtyDelta: input.qty - previousQty,
+      reason: input.reason,
+      note: input.note
+    });
+    await this.persistState();
+    return { inventoryId: stock.id, previousQty, qty: stock.qty };
+  }
+
+  async writeOffInventory(
+    input: InventoryAdjustmentInput<InventoryWriteOffReason>
+  ): Promise<InventoryAdjustmentResult> {
+    return this.takeInventory(input);
+  }
+
+  async listClassSettings(): Promise<InventoryClassSettings[]> {
+    return inventoryClassSchema.options.map((inventoryClass) => this.readClassSettings(inventoryClass));
+  }
+
+  async getClassSettings(inventoryClass: InventoryClass): Promise<InventoryClassSettings> {
+    return this.readClassSettings(normalizeInventoryClass(inventoryClass));
+  }
+
+  async updateClassSettings(
+    inventoryClass: InventoryClass,
+    patch: ClassSettingsPatch
+  ): Promise<InventoryClassSettings> {
+    const normalizedClass = normalizeInventoryClass(inventoryClass);
+    const existing = this.readClassSettings(normalizedClass);
+    this.classSettings.set(normalizedClass, {
+      inventoryClass: normalizedClass,
+      params: { ...existing.params, ...stripUndefined(patch.params ?? {}) },
+      costs: { ...existing.costs, ...stripUndefined(patch.costs ?? {}) },
+      purchasableLengthsMm: normalizeLengths(patch.purchasableLengthsMm ?? existing.purchasableLengthsMm),
+      recipes: patch.recipes ?? existing.recipes,
+      splicing: patch.splicing === undefined ? existing.splicing : patch.splicing
+    });
+
+    await this.persistState();
+    return this.readClassSettings(normalizedClass);
   }
 
   async createOrders(input: CreateOrderInput[]): Promise<OrderQueueItem[]> {
@@ -107,10 +289,14 @@ export class MemoryStore implements PlanStore {
       qty: toPositiveInt(entry.qty),
       widthOnly: entry.widthOnly === true,
       derivedFromWidth: entry.derivedFromWidth === true,
-      status: "PENDING",
+      priority: normalizeOrderPriority(entry.priority),
+      dueDate: normalizeDueDate(entry.dueDate),
+      status: "RECEIVED",
       createdAt,
       acceptedAt: null,
-      acceptedPlanIds: []
+      acceptedPlanIds: [],
+      cancelledAt: null,
+      statusHistory: []
     }));
 
     for (const order of created) {
@@ -137,31 +323,81 @@ export class MemoryStore implements PlanStore {
     return order ? cloneOrder(order) : null;
   }
 
-  async markOrderAccepted(orderId: string, acceptedPlanIds: string[]): Promise<OrderQueueItem> {
+  async transitionOrder(orderId: string, to: OrderQueueStatus): Promise<OrderTransitionResult> {
     const order = this.orders.get(orderId);
     if (!order) {
       throw new NotFoundError("Order not found");
     }
+    if (order.status === to) {
+      return { status: "UNCHANGED", order: cloneOrder(order) };
+    }
+    if (!canTransitionOrder(order.status, to, "MANUAL")) {
+      throw new ConflictError(`Order cannot move from ${order.status} to ${to}`);
+    }
 
-    if (order.status !== "ACCEPTED") {
-      order.status = "ACCEPTED";
-      order.acceptedAt = new Date().toISOString();
-      order.acceptedPlanIds = [...acceptedPlanIds];
-      await this.persistState();
+    const at = new Date().toISOString();
+    moveOrder(order, to, "MANUAL", at);
+    if (to === "CANCELLED") {
+      order.cancelledAt = at;
+    }
+    await this.persistState();
+    return { status: "MOVED", order: cloneOrder(order) };
+  }
+
+  async updateOrder(orderId: string, patch: OrderPatch): Promise<OrderQueueItem> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new NotFoundError("Order not found");
+    }
+    if (order.status !== "RECEIVED") {
+      throw new ConflictError("Only a received order can be changed");
     }
 
+    Object.assign(
+      order,
+      stripUndefined({
+        inventoryClass: patch.inventoryClass && normalizeInventoryClass(patch.inventoryClass),
+        heightMm: patch.heightMm === undefined ? undefined : toNullablePositiveInt(patch.heightMm),
+        widthMm: patch.widthMm === undefined ? undefined : toPositiveInt(patch.widthMm),
+        qty: patch.qty === undefined ? undefined : toPositiveInt(patch.qty),
+        widthOnly: patch.widthOnly,
+        priority: patch.priority && normalizeOrderPriority(patch.priority),
+        dueDate: patch.dueDate === undefined ? undefined : normalizeDueDate(patch.dueDate)
+      })
+    );
+    await this.persistState();
     return cloneOrder(order);
   }
 
+  async cancelOrder(orderId: string): Promise<CancelOrderResult> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new NotFoundError("Order not found");
+    }
+    if (order.status === "CANCELLED") {
+      return { status: "ALREADY_CANCELLED", order: cloneOrder(order) };
+    }
+    if (!canTransitionOrder(order.status, "CANCELLED", "MANUAL")) {
+      throw new ConflictError("An accepted order cannot be cancelled, revert its plan first");
+    }
+
+    order.cancelledAt = new Date().toISOString();
+    moveOrder(order, "CANCELLED", "MANUAL", order.cancelledAt);
+    await this.persistState();
+    return { status: "CANCELLED", order: cloneOrder(order) };
+  }
+
   private async addInventoryInternal(
     lengthMm: number,
     qty: number,
     inventoryClass: InventoryClass = DEFAULT_INVENTORY_CLASS,
-    persist = true
-  ): Promise<void> {
+    remnant = false,
+    defects: DefectZone[] = []
+  ): Promise<number> {
     this.repairLegacyInventory();
     const normalizedClass = normalizeInventoryClass(inventoryClass);
-    const key = toInventoryKey(lengthMm, normalizedClass);
+    const normalizedDefects = normalizeDefects(defects);
+    const key = toInventoryKey(lengthMm, normalizedClass, remnant, normalizedDefects);
     const existingId = this.inventoryKeyIndex.get(key);
     if (existingId) {
       const existing = this.inventoryById.get(existingId);
@@ -169,10 +405,7 @@ export class MemoryStore implements PlanStore {
         throw new Error("Inventory index is corrupted");
       }
       existing.qty += qty;
-      if (persist) {
-        await this.persistState();
-      }
-      return;
+      return existing.id;
     }
 
     const id = this.nextInventoryId;
@@ -182,28 +415,80 @@ export class MemoryStore implements PlanStore {
       id,
       inventoryClass: normalizedClass,
       lengthMm,
-      qty
+      qty,
+      remnant,
+      defects: normalizedDefects
     });
     this.inventoryKeyIndex.set(key, id);
-
-    if (persist) {
-      await this.persistState();
-    }
+    return id;
   }
 
   async createPlan(input: CreatePlanInput): Promise<{ planId: string }> {
+    this.repairLegacyInventory();
+
     const planId = randomUUID();
-    this.plans.set(planId, {
+    const now = Date.now();
+    const plan: MemoryPlan = {
       id: planId,
       status: "PLANNED",
+      inventoryClasses: input.parts
+        ? [...new Set(input.parts.map((part) => part.inventoryClass))]
+        : input.inventoryClass
+          ? [input.inventoryClass]
+          : [],
       params: input.params,
       orderLines: input.orderLines,
-      result: input.result
-    });
+      result: input.result,
+      parts: input.parts,
+      orderIds: input.orderIds,
+      alternativeGroupId: input.alternativeGroupId,
+      createdAt: new Date(now).toISOString(),
+      committedAt: null,
+      revertedAt: null,
+      expiresAt: new Date(now + this.reservationTtlMs).toISOString()
+    };
 
+    const reservedByOthers = this.reservedBySource(plan);
+    for (const [sourceId, requiredCount] of summarizeConsumption(plan.result.allocations)) {
+      const stock = this.inventoryById.get(sourceId);
+      if (!stock || stock.qty - (reservedByOthers.get(sourceId) ?? 0) < requiredCount) {
+        throw new ConflictError("Stock was reserved by another plan, plan again");
+      }
+    }
+
+    this.plans.set(planId, plan);
+    await this.persistState();
     return { planId };
   }
 
+  async releasePlan(planId: string): Promise<void> {
+    const plan = this.plans.get(planId);
+    if (plan?.status === "PLANNED") {
+      plan.status = "EXPIRED";
+      await this.persistState();
+    }
+  }
+
+  async getPlan(planId: string): Promise<StoredPlan | null> {
+    const plan = this.plans.get(planId);
+    return plan ? withCurrentStatus(plan, Date.now()) : null;
+  }
+
+  async listPlans(filter: PlanListFilter): Promise<StoredPlan[]> {
+    const now = Date.now();
+    return [...this.plans.values()]
+      .map((plan) => withCurrentStatus(plan, now))
+      .filter(
+        (plan) =>
+          (filter.status === undefined || plan.status === filter.status) &&
+          (filter.inventoryClass === undefined || plan.inventoryClasses.includes(filter.inventoryClass)) &&
+          (filter.from === undefined || Date.parse(plan.createdAt) >= filter.from.getTime()) &&
+          (filter.to === undefined || Date.parse(plan.createdAt) < filter.to.getTime())
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+      .slice(0, filter.limit);
+  }
+
   async commitPlan(planId: string): Promise<CommitPlanResult> {
     this.repairLegacyInventory();
 
@@ -215,21 +500,61 @@ export class MemoryStore implements PlanStore {
     if (plan.status === "COMMITTED") {
       return { status: "ALREADY_COMMITTED" };
     }
+    if (plan.status === "REVERTED") {
+      throw new ConflictError("Plan was reverted, plan again");
+    }
+    if (plan.status === "EXPIRED" || hasLapsed(plan, Date.now())) {
+      throw new ConflictError("Plan reservation expired, plan again");
+    }
+
+    const linkedOrders = (plan.orderIds ?? []).map((orderId) => {
+      const order = this.orders.get(orderId);
+      if (!order) {
+        throw new NotFoundError(`Order not found: ${orderId}`);
+      }
+      return order;
+    });
+    for (const order of linkedOrders) {
+      if (order.status === "CANCELLED") {
+        throw new ConflictError(`Order was cancelled: ${order.id}`);
+      }
+      if (!canTransitionOrder(order.status, "APPROVED", "PLAN_COMMIT")) {
+        throw new ConflictError(`Order was already accepted: ${order.id}`);
+      }
+    }
 
     const requiredBySource = summarizeConsumption(plan.result.allocations);
+    const reservedByOthers = this.reservedBySource(plan);
     for (const [sourceId, requiredCount] of requiredBySource.entries()) {
       const stock = this.inventoryById.get(sourceId);
-      if (!stock || stock.qty < requiredCount) {
+      if (!stock || stock.qty - (reservedByOthers.get(sourceId) ?? 0) < requiredCount) {
         throw new ConflictError("Inventory changed, plan cannot be committed");
       }
     }
 
+    const inventory = [...this.inventoryById.values()];
+    const violations = (plan.parts ?? [plan]).flatMap((part) => validateCutPlan(part.result, inventory, part.params));
+    if (violations.length > 0) {
+      throw new InvalidPlanError("Plan is not consistent with the inventory", violations);
+    }
+
+    const committedAt = new Date().toISOString();
+    const reference = { planId, orderIds: plan.orderIds ?? [] };
     for (const [sourceId, requiredCount] of requiredBySource.entries()) {
       const stock = this.inventoryById.get(sourceId);
       if (!stock) {
         throw new ConflictError("Inventory changed, plan cannot be committed");
       }
       stock.qty -= requiredCount;
+      this.recordMovement(
+        { inventoryId: sourceId, type: "PLAN_CONSUMPTION", qtyDelta: -requiredCount, ...reference },
+        committedAt
+      );
+    }
+    for (const order of linkedOrders) {
+      moveOrder(order, "APPROVED", "PLAN_COMMIT", committedAt);
+      order.acceptedAt = committedAt;
+      order.acceptedPlanIds = [planId];
     }
 
     const remnantMap = summarizeRemnants(plan.result.allocations, (sourceId) => {
@@ -240,19 +565,225 @@ export class MemoryStore implements PlanStore {
       return normalizeInventoryClass(stock.inventoryClass);
     });
     for (const remnant of remnantMap.values()) {
-      await this.addInventoryInternal(remnant.lengthMm, remnant.qty, remnant.inventoryClass, false);
+      const inventoryId = await this.addInventoryInternal(
+        remnant.lengthMm,
+        remnant.qty,
+        remnant.inventoryClass,
+        true,
+        remnant.defects
+      );
+      this.recordMovement(
+        { inventoryId, type: "REMNANT_CREATED", qtyDelta: remnant.qty, ...reference },
+        committedAt
+      );
     }
 
     plan.status = "COMMITTED";
+    plan.committedAt = committedAt;
+    for (const alternative of this.plans.values()) {
+      if (alternative.status === "PLANNED" && holderOf(alternative) === holderOf(plan)) {
+        alternative.status = "EXPIRED";
+      }
+    }
     await this.persistState();
     return { status: "COMMITTED" };
   }
 
+  async revertPlan(planId: string): Promise<RevertPlanResult> {
+    this.repairLegacyInventory();
+
+    const plan = this.plans.get(planId);
+    if (!plan) {
+      throw new NotFoundError("Plan not found");
+    }
+    if (plan.status === "REVERTED") {
+      return { status: "ALREADY_REVERTED", reopenedOrderIds: [] };
+    }
+    if (plan.status !== "COMMITTED") {
+      throw new ConflictError("Only a committed plan can be reverted");
+    }
+
+    const linkedOrders = [...this.orders.values()].filter((order) => order.acceptedPlanIds.includes(planId));
+    if (linkedOrders.some((order) => !canTransitionOrder(order.status, "RECEIVED", "PLAN_REVERT"))) {
+      throw new ConflictError("Orders from this plan are already in production, plan cannot be reverted");
+    }
+
+    const consumedBySource = summarizeConsumption(plan.result.allocations);
+    const remnants = summarizeRemnants(plan.result.allocations, (sourceId) => {
+      const stock = this.inventoryById.get(sourceId);
+      if (!stock) {
+        throw new ConflictError("Inventory changed, plan cannot be reverted");
+      }
+      return stock.inventoryClass;
+    });
+
+    const reserved = this.reservedBySource();
+    const remnantStock = [...remnants.values()].map((remnant) => {
+      const id = this.inventoryKeyIndex.get(
+        toInventoryKey(remnant.lengthMm, remnant.inventoryClass, true, remnant.defects)
+      );
+      const stock = id === undefined ? undefined : this.inventoryById.get(id);
+      if (!stock || stock.qty - (reserved.get(stock.id) ?? 0) < remnant.qty) {
+        throw new ConflictError("Remnants from this plan were already used, plan cannot be reverted");
+      }
+      return { stock, qty: remnant.qty };
+    });
+
+    for (const { stock, qty } of remnantStock) {
+      stock.qty -= qty;
+    }
+    for (const [sourceId, count] of consumedBySource) {
+      const stock = this.inventoryById.get(sourceId);
+      if (stock) {
+        stock.qty += count;
+      }
+    }
+
+    plan.status = "REVERTED";
+    plan.revertedAt = new Date().toISOString();
+    const reopenedOrderIds: string[] = [];
+    for (const order of linkedOrders) {
+      moveOrder(order, "RECEIVED", "PLAN_REVERT", plan.revertedAt);
+      order.acceptedAt = null;
+      order.acceptedPlanIds = [];
+      reopenedOrderIds.push(order.id);
+    }
+
+    const reference = { planId, orderIds: reopenedOrderIds };
+    for (const { stock, qty } of remnantStock) {
+      this.recordMovement({ inventoryId: stock.id, type: "REVERT", qtyDelta: -qty, ...reference }, plan.revertedAt);
+    }
+    for (const [sourceId, count] of consumedBySource) {
+      this.recordMovement({ inventoryId: sourceId, type: "REVERT", qtyDelta: count, ...reference }, plan.revertedAt);
+    }
+
+    await this.persistState();
+    return { status: "REVERTED", reopenedOrderIds };
+  }
+
+  async expirePlans(): Promise<number> {
+    const now = Date.now();
+    let expired = 0;
+    for (const plan of this.plans.values()) {
+      if (plan.status === "PLANNED" && hasLapsed(plan, now)) {
+        plan.status = "EXPIRED";
+        expired += 1;
+      }
+    }
+    if (expired > 0) {
+      await this.persistState();
+    }
+    return expired;
+  }
+
+  private recordMovement(movement: MovementInput, createdAt = new Date().toISOString()): void {
+    this.movements.push({
+      id: this.nextMovementId,
+      inventoryId: movement.inventoryId,
+      type: movement.type,
+      qtyDelta: movement.qtyDelta,
+      planId: movement.planId ?? null,
+      orderIds: movement.orderIds ? [...movement.orderIds] : [],
+      reason: movement.reason ?? null,
+      note: movement.note ?? null,
+      createdAt
+    });
+    this.nextMovementId += 1;
+  }
+
+  /**
+   * Records an `ADDITION` for stock the ledger has never seen, such as the
+   * seeded bars or state saved before movements were kept, so snapshots
+   * before that point show it as absent. Returns how many were recorded.
+   */
+  private recordOpeningBalances(): number {
+    const tracked = new Set(this.movements.map((movement) => movement.inventoryId));
+    let recorded = 0;
+    for (const stock of this.inventoryById.values()) {
+      if (stock.qty > 0 && !tracked.has(stock.id)) {
+        this.recordMovement({ inventoryId: stock.id, type: "ADDITION", qtyDelta: stock.qty, note: "Opening balance" });
+        recorded += 1;
+      }
+    }
+    return recorded;
+  }
+
+  private findInventory(inventoryId: number): InventoryItem {
+    this.repairLegacyInventory();
+    const stock = this.inventoryById.get(inventoryId);
+    if (!stock) {
+      throw new NotFoundError("Inventory item not found");
+    }
+    return stock;
+  }
+
+  private async takeInventory(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    const stock = this.findInventory(input.inventoryId);
+    const availableQty = stock.qty - (this.reservedBySource().get(stock.id) ?? 0);
+    if (availableQty < input.qty) {
+      throw new ConflictError(`Only ${Math.max(availableQty, 0)} unreserved bars are on hand`);
+    }
+
+    const previousQty = stock.qty;
+    stock.qty -= input.qty;
+    this.recordMovement({
+      inventoryId: stock.id,
+      type: "ADJUSTMENT",
+      qtyDelta: -input.qty,
+      reason: input.reason,
+      note: input.note
+    });
+    await this.persistState();
+    return { inventoryId: stock.id, previousQty, qty: stock.qty };
+  }
+
+  /**
+   * Bars held by plans that are still `PLANNED` and within their reservation,
+   * leaving out `except` and its alternatives. Alternatives hold the most any
+   * one of them needs from a bar.
+   */
+  private reservedBySource(except?: MemoryPlan): Map<number, number> {
+    const now = Date.now();
+    const byHolder = new Map<string, Map<number, number>>();
+    for (const plan of this.plans.values()) {
+      if (plan.status !== "PLANNED" || hasLapsed(plan, now) || (except && holderOf(plan) === holderOf(except))) {
+        continue;
+      }
+      const held = byHolder.get(holderOf(plan)) ?? new Map<number, number>();
+      for (const [sourceId, count] of summarizeConsumption(plan.result.allocations)) {
+        held.set(sourceId, Math.max(held.get(sourceId) ?? 0, count));
+      }
+      byHolder.set(holderOf(plan), held);
+    }
+
+    const reserved = new Map<number, number>();
+    for (const held of byHolder.values()) {
+      for (const [sourceId, count] of held) {
+        reserved.set(sourceId, (reserved.get(sourceId) ?? 0) + count);
+      }
+    }
+    return reserved;
+  }
+
+  private readClassSettings(inventoryClass: InventoryClass): InventoryClassSettings {
+    const settings = this.classSettings.get(inventoryClass);
+    return {
+      inventoryClass,
+      params: { ...settings?.params },
+      costs: { ...settings?.costs },
+      purchasableLengthsMm: [...(settings?.purchasableLengthsMm ?? [])],
+      recipes: structuredClone(settings?.recipes ?? []),
+      splicing: settings?.splicing ? { ...settings.splicing } : null
+    };
+  }
+
   private repairLegacyInventory(): void {
     this.inventoryKeyIndex.clear();
     for (const item of this.inventoryById.values()) {
       item.inventoryClass = normalizeInventoryClass(item.inventoryClass);
-      const key = toInventoryKey(item.lengthMm, item.inventoryClass);
+      item.remnant = item.remnant === true;
+      item.defects = normalizeDefects(item.defects);
+      const key = toInventoryKey(item.lengthMm, item.inventoryClass, item.remnant, item.defects);
       if (!this.inventoryKeyIndex.has(key)) {
         this.inventoryKeyIndex.set(key, item.id);
       }
@@ -270,6 +801,7 @@ export class MemoryStore implements PlanStore {
     this.inventoryById.clear();
     this.inventoryKeyIndex.clear();
     this.orders.clear();
+    this.classSettings.clear();
 
     let maxId = 0;
     for (const item of parsed.inventory ?? []) {
@@ -285,7 +817,9 @@ export class MemoryStore implements PlanStore {
         id,
         inventoryClass,
         lengthMm,
-        qty
+        qty,
+        remnant: item.remnant === true,
+        defects: normalizeDefects(item.defects)
       });
       maxId = Math.max(maxId, id);
     }
@@ -309,18 +843,53 @@ export class MemoryStore implements PlanStore {
         qty,
         widthOnly: item.widthOnly === true,
         derivedFromWidth: item.derivedFromWidth === true,
+        priority: normalizeOrderPriority(item.priority),
+        dueDate: normalizeDueDate(item.dueDate),
         status: normalizeOrderStatus(item.status),
         createdAt: typeof item.createdAt === "string" && item.createdAt.length > 0 ? item.createdAt : new Date().toISOString(),
         acceptedAt:
           typeof item.acceptedAt === "string" && item.acceptedAt.length > 0 ? item.acceptedAt : null,
         acceptedPlanIds: Array.isArray(item.acceptedPlanIds)
           ? item.acceptedPlanIds.filter((x): x is string => typeof x === "string")
-          : []
+          : [],
+        cancelledAt:
+          typeof item.cancelledAt === "string" && item.cancelledAt.length > 0 ? item.cancelledAt : null,
+        statusHistory: normalizeStatusHistory(item.statusHistory)
       };
 
       this.orders.set(order.id, order);
     }
 
+    for (const item of parsed.classSettings ?? []) {
+      const params = planParamsPatchSchema.safeParse(item.params);
+      if (!params.success) {
+        continue;
+      }
+      const costs = planCostsPatchSchema.safeParse(item.costs ?? {});
+      const inventoryClass = normalizeInventoryClass(item.inventoryClass);
+      this.classSettings.set(inventoryClass, {
+        inventoryClass,
+        params: params.data,
+        costs: costs.success ? costs.data : {},
+        purchasableLengthsMm: normalizeLengths(item.purchasableLengthsMm),
+        recipes: normalizeRecipes(item.recipes),
+        splicing: normalizeSplicing(item.splicing)
+      });
+    }
+
+    for (const item of parsed.plans ?? []) {
+      const plan = normalizePlan(item);
+      if (plan) {
+        this.plans.set(plan.id, plan);
+      }
+    }
+
+    this.movements = (parsed.movements ?? []).flatMap((item) => {
+      const movement = normalizeMovement(item);
+      return movement ? [movement] : [];
+    });
+    this.nextMovementId = this.movements.reduce((next, movement) => Math.max(next, movement.id + 1), 1);
+
     this.repairLegacyInventory();
     this.nextInventoryId = Math.max(toPositiveInt(parsed.nextInventoryId), maxId + 1);
   }
@@ -329,6 +898,9 @@ export class MemoryStore implements PlanStore {
     const state: PersistedMemoryState = {
       inventory: [...this.inventoryById.values()],
       orders: [...this.orders.values()],
+      classSettings: [...this.classSettings.values()],
+      plans: [...this.plans.values()],
+      movements: this.movements,
       nextInventoryId: this.nextInventoryId
     };
 
@@ -337,6 +909,96 @@ export class MemoryStore implements PlanStore {
   }
 }
 
+/** Keeps a stored plan only when its id, status and result survived; the rest falls back to defaults. */
+function normalizePlan(item: PersistedPlan): MemoryPlan | null {
+  const status = item.status;
+  const result = item.result as CutPlanResult | undefined;
+  if (
+    typeof item.id !== "string" ||
+    (status !== "PLANNED" && status !== "COMMITTED" && status !== "EXPIRED" && status !== "REVERTED") ||
+    !Array.isArray(result?.allocations)
+  ) {
+    return null;
+  }
+
+  const params = planParamsSchema.safeParse(item.params);
+  return {
+    id: item.id,
+    status,
+    inventoryClasses: Array.isArray(item.inventoryClasses)
+      ? [...new Set(item.inventoryClasses.map(normalizeInventoryClass))]
+      : [],
+    params: params.success ? params.data : mergePlanParams(),
+    orderLines: Array.isArray(item.orderLines) ? (item.orderLines as OrderLineMm[]) : [],
+    result,
+    parts: Array.isArray(item.parts) ? (item.parts as PlanPart[]) : undefined,
+    orderIds: Array.isArray(item.orderIds) ? item.orderIds.filter((x): x is string => typeof x === "string") : undefined,
+    alternativeGroupId: typeof item.alternativeGroupId === "string" ? item.alternativeGroupId : undefined,
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : new Date(0).toISOString(),
+    committedAt: typeof item.committedAt === "string" ? item.committedAt : null,
+    revertedAt: typeof item.revertedAt === "string" ? item.revertedAt : null,
+    expiresAt: typeof item.expiresAt === "string" ? item.expiresAt : null
+  };
+}
+
+function normalizeMovement(item: { [K in keyof MemoryMovement]?: unknown }): MemoryMovement | null {
+  const type = inventoryMovementTypeSchema.safeParse(item.type);
+  const id = toPositiveInt(toNumber(item.id));
+  const inventoryId = toPositiveInt(toNumber(item.inventoryId));
+  const qtyDelta = toNumber(item.qtyDelta);
+  if (
+    !type.success ||
+    id <= 0 ||
+    inventoryId <= 0 ||
+    !Number.isInteger(qtyDelta) ||
+    typeof item.createdAt !== "string"
+  ) {
+    return null;
+  }
+
+  const reason = inventoryAdjustmentReasonSchema.safeParse(item.reason);
+  return {
+    id,
+    inventoryId,
+    type: type.data,
+    qtyDelta,
+    planId: typeof item.planId === "string" ? item.planId : null,
+    orderIds: Array.isArray(item.orderIds) ? item.orderIds.filter((x): x is string => typeof x === "string") : [],
+    reason: reason.success ? reason.data : null,
+    note: typeof item.note === "string" ? item.note : null,
+    createdAt: item.createdAt
+  };
+}
+
+/** Class, then length, whole bars before remnants, clean bars before defective ones. */
+function compareInventory(a: InventoryItem, b: InventoryItem): number {
+  const classOrder = a.inventoryClass.localeCompare(b.inventoryClass);
+  if (classOrder !== 0) {
+    return classOrder;
+  }
+  if (a.lengthMm !== b.lengthMm) {
+    return a.lengthMm - b.lengthMm;
+  }
+  if (a.remnant !== b.remnant) {
+    return Number(a.remnant) - Number(b.remnant);
+  }
+  return a.defects.length - b.defects.length || a.id - b.id;
+}
+
+function hasLapsed(plan: MemoryPlan, now: number): boolean {
+  return plan.expiresAt === null || Date.parse(plan.expiresAt) <= now;
+}
+
+function withCurrentStatus(plan: MemoryPlan, now: number): StoredPlan {
+  const status = plan.status === "PLANNED" && hasLapsed(plan, now) ? "EXPIRED" : plan.status;
+  return structuredClone({ ...plan, status });
+}
+
+/** Whose reservation a plan's bars count toward: its alternative group, or the plan alone. */
+function holderOf(plan: MemoryPlan): string {
+  return plan.alternativeGroupId ?? plan.id;
+}
+
 function summarizeConsumption(allocations: Allocation[]): Map<number, number> {
   const map = new Map<number, number>();
   for (const allocation of allocations) {
@@ -349,14 +1011,15 @@ function summarizeConsumption(allocations: Allocation[]): Map<number, number> {
 function summarizeRemnants(
   allocations: Allocation[],
   resolveInventoryClass: (sourceId: number) => InventoryClass
-): Map<string, { inventoryClass: InventoryClass; lengthMm: number; qty: number }> {
-  const map = new Map<string, { inventoryClass: InventoryClass; lengthMm: number; qty: number }>();
+): Map<string, RemnantSummary> {
+  const map = new Map<string, RemnantSummary>();
   for (const allocation of allocations) {
     if (!allocation.remnantKept) {
       continue;
     }
     const inventoryClass = resolveInventoryClass(allocation.stock.sourceId);
-    const key = toInventoryKey(allocation.remnantMm, inventoryClass);
+    const defects = normalizeDefects(allocation.remnantDefects);
+    const key = toInventoryKey(allocation.remnantMm, inventoryClass, true, defects);
     const existing = map.get(key);
     if (existing) {
       existing.qty += 1;
@@ -365,14 +1028,57 @@ function summarizeRemnants(
     map.set(key, {
       inventoryClass,
       lengthMm: allocation.remnantMm,
-      qty: 1
+      qty: 1,
+      defects
     });
   }
   return map;
 }
 
-function toInventoryKey(lengthMm: number, inventoryClass: InventoryClass): string {
-  return `${inventoryClass}:${lengthMm}`;
+function toInventoryKey(
+  lengthMm: number,
+  inventoryClass: InventoryClass,
+  remnant: boolean,
+  defects: DefectZone[]
+): string {
+  const defectKey = defects.map((defect) => `${defect.offsetMm}+${defect.lengthMm}`).join(",");
+  return `${inventoryClass}:${lengthMm}:${remnant ? "remnant" : "stock"}:${defectKey}`;
+}
+
+function normalizeLengths(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const lengths = value.map((entry) => toPositiveInt(toNumber(entry))).filter((length) => length > 0);
+  return [...new Set(lengths)].sort((a, b) => a - b);
+}
+
+function normalizeRecipes(value: unknown): ProductRecipe[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    const parsed = productRecipeSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function normalizeSplicing(value: unknown): SpliceOptions | null {
+  const parsed = spliceOptionsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+function normalizeDefects(value: unknown): DefectZone[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((entry) => ({
+      offsetMm: toNonNegativeInt(toNumber(entry?.offsetMm)),
+      lengthMm: toPositiveInt(toNumber(entry?.lengthMm))
+    }))
+    .filter((defect) => defect.lengthMm > 0)
+    .sort((a, b) => a.offsetMm - b.offsetMm || a.lengthMm - b.lengthMm);
 }
 
 function normalizeInventoryClass(value: unknown): InventoryClass {
@@ -382,8 +1088,34 @@ function normalizeInventoryClass(value: unknown): InventoryClass {
   return DEFAULT_INVENTORY_CLASS;
 }
 
+/** Reads statuses saved before the full lifecycle: `PENDING` was received, `ACCEPTED` approved. */
 function normalizeOrderStatus(value: unknown): OrderQueueStatus {
-  return value === "ACCEPTED" ? "ACCEPTED" : "PENDING";
+  const legacy: Record<string, OrderQueueStatus> = { PENDING: "RECEIVED", ACCEPTED: "APPROVED" };
+  const parsed = orderQueueStatusSchema.safeParse(typeof value === "string" ? (legacy[value] ?? value) : value);
+  return parsed.success ? parsed.data : "RECEIVED";
+}
+
+function normalizeStatusHistory(value: unknown): OrderStatusChange[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry: Partial<Record<keyof OrderStatusChange, unknown>>) => {
+    const from = orderQueueStatusSchema.safeParse(entry?.from);
+    const to = orderQueueStatusSchema.safeParse(entry?.to);
+    const trigger = orderTransitionTriggerSchema.safeParse(entry?.trigger);
+    return from.success && to.success && trigger.success && typeof entry.at === "string"
+      ? [{ from: from.data, to: to.data, trigger: trigger.data, at: entry.at }]
+      : [];
+  });
+}
+
+function normalizeOrderPriority(value: unknown): OrderPriority {
+  const parsed = orderPrioritySchema.safeParse(value);
+  return parsed.success ? parsed.data : "NORMAL";
+}
+
+function normalizeDueDate(value: unknown): string | null {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
 }
 
 function toPositiveInt(value: number): number {
@@ -409,13 +1141,25 @@ function toNumber(value: unknown): number {
   return typeof value === "number" ? value : Number.NaN;
 }
 
+function stripUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
 function cloneOrder(order: OrderQueueItem): OrderQueueItem {
   return {
     ...order,
-    acceptedPlanIds: [...order.acceptedPlanIds]
+    acceptedPlanIds: [...order.acceptedPlanIds],
+    statusHistory: order.statusHistory.map((change) => ({ ...change }))
   };
 }
 
+function moveOrder(order: OrderQueueItem, to: OrderQueueStatus, trigger: OrderTransitionTrigger, at: string): void {
+  order.statusHistory.push({ from: order.status, to, trigger, at });
+  order.status = to;
+}
+
 function resolveMemoryStateFilePath(): string {
   const apiDirFromRoot = resolve(process.cwd(), "apps", "api");
   if (existsSync(apiDirFromRoot)) {
@@ -1,22 +1,131 @@
 import { randomUUID } from "crypto";
-import { Pool } from "pg";
-import type { InventoryClass, InventoryItem } from "@cutting/contracts";
-import type { Allocation, CutPlanResult } from "@cutting/cutting-core";
-import { ConflictError, NotFoundError } from "../utils/errors";
+import { Pool, type PoolClient } from "pg";
+import {
+  canTransitionOrder,
+  type DefectZone,
+  type InventoryClass,
+  type InventoryClassSettings,
+  inventoryClassSchema,
+  type InventoryItem,
+  type InventoryStock,
+  type InventoryWriteOffReason,
+  type OrderPriority,
+  type OrderTransitionTrigger,
+  planCostsPatchSchema,
+  type PlanParams,
+  planParamsPatchSchema,
+  type ProductRecipe,
+  productRecipeSchema,
+  type SpliceOptions,
+  spliceOptionsSchema
+} from "@cutting/contracts";
+import { type Allocation, type CutPlanResult, type OrderLineMm, validateCutPlan } from "@cutting/cutting-core";
+import { ConflictError, InvalidPlanError, NotFoundError } from "../utils/errors";
 import { migrationStatements } from "./sql";
-import type {
-  CommitPlanResult,
-  CreateOrderInput,
-  CreatePlanInput,
-  OrderQueueItem,
-  PlanStore
+import {
+  type CancelOrderResult,
+  type ClassSettingsPatch,
+  type CommitPlanResult,
+  type CreateOrderInput,
+  type CreatePlanInput,
+  DEFAULT_RESERVATION_TTL_MS,
+  type InventoryAdjustmentInput,
+  type InventoryAdjustmentResult,
+  type InventoryMovement,
+  type InventoryMovementFilter,
+  type OrderPatch,
+  type OrderQueueItem,
+  type OrderQueueStatus,
+  type OrderStatusChange,
+  type OrderTransitionResult,
+  type PlanListFilter,
+  type PlanPart,
+  type PlanState,
+  type PlanStore,
+  type RevertPlanResult,
+  type StoredPlan,
+  type StoreOptions
 } from "./types";
 
+/** A plan whose reservation ran out reads as `EXPIRED` even before the sweeper marks it. */
+const PLAN_COLUMNS = `
+  id,
+  CASE
+    WHEN status = 'PLANNED' AND (expires_at IS NULL OR expires_at <= NOW()) THEN 'EXPIRED'
+    ELSE status
+  END AS status,
+  inventory_classes,
+  params_json,
+  order_json,
+  result_json,
+  parts_json,
+  order_ids,
+  alternative_group_id,
+  created_at,
+  committed_at,
+  expires_at,
+  reverted_at
+`;
+
+/**
+ * Bars held per inventory row by live `PLANNED` plans. A plan holds them on its
+ * own or through its alternative group, which holds the most any one member
+ * needs; holder `$1`, when given, is left out.
+ */
+const RESERVED_BY_SOURCE_SQL = `
+  SELECT inventory_id, SUM(reserved_qty)::int AS reserved_qty
+  FROM (
+    SELECT holder, inventory_id, MAX(used_qty) AS reserved_qty
+    FROM (
+      SELECT
+        COALESCE(plans.alternative_group_id, plans.id) AS holder,
+        (allocation->'stock'->>'sourceId')::int AS inventory_id,
+        COUNT(*) AS used_qty
+      FROM plans
+      CROSS JOIN LATERAL jsonb_array_elements(plans.result_json->'allocations') AS allocation
+      WHERE plans.status = 'PLANNED'
+        AND plans.expires_at > NOW()
+        AND COALESCE(plans.alternative_group_id, plans.id) IS DISTINCT FROM $1::uuid
+      GROUP BY plans.id, holder, inventory_id
+    ) AS per_plan
+    GROUP BY holder, inventory_id
+  ) AS per_holder
+  GROUP BY inventory_id
+`;
+
+const ORDER_COLUMNS = `
+  id,
+  inventory_class,
+  height_mm,
+  width_mm,
+  qty,
+  width_only,
+  derived_from_width,
+  priority,
+  to_char(due_date, 'YYYY-MM-DD') AS due_date,
+  status,
+  created_at,
+  accepted_at,
+  accepted_plan_ids,
+  cancelled_at,
+  status_history
+`;
+
+const INSERT_MOVEMENT_SQL = `
+  INSERT INTO inventory_movements (inventory_id, movement_type, qty_delta, plan_id, order_ids, reason, note)
+  VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+`;
+
+type MovementInput = Pick<InventoryMovement, "inventoryId" | "type" | "qtyDelta"> &
+  Partial<Pick<InventoryMovement, "planId" | "orderIds" | "reason" | "note">>;
+
 export class PostgresStore implements PlanStore {
   private readonly pool: Pool;
+  private readonly reservationTtlMs: number;
 
-  constructor(databaseUrl: string) {
+  constructor(databaseUrl: string, options: Partial<StoreOptions> = {}) {
     this.pool = new Pool({ connectionString: databaseUrl });
+    this.reservationTtlMs = options.reservationTtlMs ?? DEFAULT_RESERVATION_TTL_MS;
   }
 
   async migrate(): Promise<void> {
@@ -29,50 +138,385 @@ export class PostgresStore implements PlanStore {
     await this.pool.end();
   }
 
-  async listInventory(): Promise<InventoryItem[]> {
+  async listInventory(): Promise<InventoryStock[]> {
     const { rows } = await this.pool.query<{
       id: number;
       inventory_class: InventoryClass;
       length_mm: number;
       qty: number;
-    }>(`
-      SELECT id, inventory_class, length_mm, qty
+      reserved_qty: number;
+      is_remnant: boolean;
+      defects_json: unknown;
+    }>(
+      `
+      SELECT
+        inventory.id,
+        inventory.inventory_class,
+        inventory.length_mm,
+        inventory.qty,
+        LEAST(inventory.qty, COALESCE(reserved.reserved_qty, 0)) AS reserved_qty,
+        inventory.is_remnant,
+        inventory.defects_json
       FROM inventory
-      WHERE qty > 0
-      ORDER BY inventory_class ASC, length_mm ASC
-    `);
+      LEFT JOIN (${RESERVED_BY_SOURCE_SQL}) AS reserved ON reserved.inventory_id = inventory.id
+      WHERE inventory.qty > 0
+      ORDER BY
+        inventory.inventory_class ASC,
+        inventory.length_mm ASC,
+        inventory.is_remnant ASC,
+        jsonb_array_length(inventory.defects_json) ASC,
+        inventory.id ASC
+    `,
+      [null]
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      inventoryClass: row.inventory_class,
+      lengthMm: row.length_mm,
+      qty: row.qty,
+      reservedQty: row.reserved_qty,
+      availableQty: row.qty - row.reserved_qty,
+      remnant: row.is_remnant,
+      defects: normalizeDefects(row.defects_json)
+    }));
+  }
+
+  async listMovements(filter: InventoryMovementFilter): Promise<InventoryMovement[]> {
+    const { rows } = await this.pool.query<MovementRow>(
+      `
+        SELECT
+          movements.id,
+          movements.inventory_id,
+          inventory.inventory_class,
+          inventory.length_mm,
+          inventory.is_remnant,
+          movements.movement_type,
+          movements.qty_delta,
+          movements.plan_id,
+          movements.order_ids,
+          movements.reason,
+          movements.note,
+          movements.created_at
+        FROM inventory_movements AS movements
+        JOIN inventory ON inventory.id = movements.inventory_id
+        WHERE ($1::int IS NULL OR movements.inventory_id = $1)
+          AND ($2::text IS NULL OR inventory.inventory_class = $2)
+          AND ($3::int IS NULL OR inventory.length_mm = $3)
+          AND ($4::text IS NULL OR movements.movement_type = $4)
+          AND ($5::uuid IS NULL OR movements.plan_id = $5)
+          AND ($6::text IS NULL OR movements.order_ids ? $6)
+          AND ($7::text IS NULL OR movements.reason = $7)
+          AND ($8::timestamptz IS NULL OR movements.created_at >= $8)
+          AND ($9::timestamptz IS NULL OR movements.created_at < $9)
+        ORDER BY movements.created_at DESC, movements.id DESC
+        LIMIT $10
+      `,
+      [
+        filter.inventoryId ?? null,
+        filter.inventoryClass ?? null,
+        filter.lengthMm ?? null,
+        filter.type ?? null,
+        filter.planId ?? null,
+        filter.orderId ?? null,
+        filter.reason ?? null,
+        filter.from ?? null,
+        filter.to ?? null,
+        filter.limit
+      ]
+    );
+    return rows.map(mapMovementRow);
+  }
+
+  async inventoryAsOf(asOf: Date): Promise<InventoryItem[]> {
+    const { rows } = await this.pool.query<{
+      id: number;
+      inventory_class: InventoryClass;
+      length_mm: number;
+      qty: number;
+      is_remnant: boolean;
+      defects_json: unknown;
+    }>(
+      `
+        SELECT *
+        FROM (
+          SELECT
+            inventory.id,
+            inventory.inventory_class,
+            inventory.length_mm,
+            inventory.qty - COALESCE(later.qty_delta, 0) AS qty,
+            inventory.is_remnant,
+            inventory.defects_json
+          FROM inventory
+          LEFT JOIN (
+            SELECT inventory_id, SUM(qty_delta)::int AS qty_delta
+            FROM inventory_movements
+            WHERE created_at > $1
+            GROUP BY inventory_id
+          ) AS later ON later.inventory_id = inventory.id
+        ) AS past
+        WHERE qty > 0
+        ORDER BY
+          inventory_class ASC,
+          length_mm ASC,
+          is_remnant ASC,
+          jsonb_array_length(defects_json) ASC,
+          id ASC
+      `,
+      [asOf]
+    );
 
     return rows.map((row) => ({
       id: row.id,
       inventoryClass: row.inventory_class,
       lengthMm: row.length_mm,
-      qty: row.qty
+      qty: row.qty,
+      remnant: row.is_remnant,
+      defects: normalizeDefects(row.defects_json)
     }));
   }
 
-  async addInventory(lengthMm: number, qty: number, inventoryClass: InventoryClass): Promise<void> {
+  async addInventory(
+    lengthMm: number,
+    qty: number,
+    inventoryClass: InventoryClass,
+    remnant = false,
+    defects: DefectZone[] = []
+  ): Promise<void> {
     await this.pool.query(
       `
-        INSERT INTO inventory (inventory_class, length_mm, qty)
-        VALUES ($1, $2, $3)
-        ON CONFLICT (inventory_class, length_mm)
-        DO UPDATE SET qty = inventory.qty + EXCLUDED.qty
+        WITH stock AS (
+          INSERT INTO inventory (inventory_class, length_mm, qty, is_remnant, defects_json)
+          VALUES ($1, $2, $3, $4, $5::jsonb)
+          ON CONFLICT (inventory_class, length_mm, is_remnant, defects_json)
+          DO UPDATE SET qty = inventory.qty + EXCLUDED.qty
+          RETURNING id
+        )
+        INSERT INTO inventory_movements (inventory_id, movement_type, qty_delta)
+        SELECT id, 'ADDITION', $3
+        FROM stock
       `,
-      [inventoryClass, lengthMm, qty]
+      [inventoryClass, lengthMm, qty, remnant, JSON.stringify(normalizeDefects(defects))]
     );
   }
 
+  async removeInventory(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    return this.takeInventory(input);
+  }
+
+  async setInventoryQty(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    const { rows } = await this.pool.query<{ previous_qty: number; qty: number }>(
+      `
+        WITH updated AS (
+          UPDATE inventory
+          SET qty = $2
+          FROM (SELECT qty FROM inventory WHERE id = $1 FOR UPDATE) AS previous
+          WHERE inventory.id = $1
+          RETURNING inventory.id, previous.qty AS previous_qty, inventory.qty
+        ),
+        movement AS (
+          INSERT INTO inventory_movements (inventory_id, movement_type, qty_delta, reason, note)
+          SELECT id, 'ADJUSTMENT', qty - previous_qty, $3, $4
+          FROM updated
+        )
+        SELECT previous_qty, qty
+        FROM updated
+      `,
+      [input.inventoryId, input.qty, input.reason, input.note ?? null]
+    );
+    if (rows.length === 0) {
+      throw new NotFoundError("Inventory item not found");
+    }
+    return { inventoryId: input.inventoryId, previousQty: rows[0].previous_qty, qty: rows[0].qty };
+  }
+
+  async writeOffInventory(
+    input: InventoryAdjustmentInput<InventoryWriteOffReason>
+  ): Promise<InventoryAdjustmentResult> {
+    return this.takeInventory(input);
+  }
+
+  async listClassSettings(): Promise<InventoryClassSettings[]> {
+    const { rows } = await this.pool.query<ClassSettingsRow>(`
+      SELECT inventory_class, params_json, costs_json, purchasable_lengths_json, recipes_json, splicing_json
+      FROM inventory_class_settings
+    `);
+
+    return inventoryClassSchema.options.map((inventoryClass) =>
+      mapClassSettingsRow(inventoryClass, rows.find((row) => row.inventory_class === inventoryClass))
+    );
+  }
+
+  async getClassSettings(inventoryClass: InventoryClass): Promise<InventoryClassSettings> {
+    const { rows } = await this.pool.query<ClassSettingsRow>(
+      `
+        SELECT inventory_class, params_json, costs_json, purchasable_lengths_json, recipes_json, splicing_json
+        FROM inventory_class_settings
+        WHERE inventory_class = $1
+      `,
+      [inventoryClass]
+    );
+
+    return mapClassSettingsRow(inventoryClass, rows[0]);
+  }
+
+  async updateClassSettings(
+    inventoryClass: InventoryClass,
+    patch: ClassSettingsPatch
+  ): Promise<InventoryClassSettings> {
+    const { rows } = await this.pool.query<ClassSettingsRow>(
+      `
+        INSERT INTO inventory_class_settings (
+          inventory_class,
+          params_json,
+          costs_json,
+          purchasable_lengths_json,
+          recipes_json,
+          splicing_json
+        )
+        VALUES (
+          $1,
+          $2::jsonb,
+          $3::jsonb,
+          COALESCE($4::jsonb, '[]'::jsonb),
+          COALESCE($5::jsonb, '[]'::jsonb),
+          $6::jsonb
+        )
+        ON CONFLICT (inventory_class)
+        DO UPDATE SET
+          params_json = inventory_class_settings.params_json || EXCLUDED.params_json,
+          costs_json = inventory_class_settings.costs_json || EXCLUDED.costs_json,
+          purchasable_lengths_json = COALESCE($4::jsonb, inventory_class_settings.purchasable_lengths_json),
+          recipes_json = COALESCE($5::jsonb, inventory_class_settings.recipes_json),
+          splicing_json = CASE WHEN $7::boolean THEN $6::jsonb ELSE inventory_class_settings.splicing_json END,
+          updated_at = NOW()
+        RETURNING inventory_class, params_json, costs_json, purchasable_lengths_json, recipes_json, splicing_json
+      `,
+      [
+        inventoryClass,
+        JSON.stringify(patch.params ?? {}),
+        JSON.stringify(patch.costs ?? {}),
+        patch.purchasableLengthsMm ? JSON.stringify(normalizeLengths(patch.purchasableLengthsMm)) : null,
+        patch.recipes ? JSON.stringify(patch.recipes) : null,
+        patch.splicing ? JSON.stringify(patch.splicing) : null,
+        patch.splicing !== undefined
+      ]
+    );
+
+    return mapClassSettingsRow(inventoryClass, rows[0]);
+  }
+
   async createPlan(input: CreatePlanInput): Promise<{ planId: string }> {
     const planId = randomUUID();
-    await this.pool.query(
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const consumptionBySource = summarizeConsumption(input.result.allocations);
+      const sources = await client.query<{ id: number; qty: number }>(
+        `
+          SELECT id, qty
+          FROM inventory
+          WHERE id = ANY($1::int[])
+          ORDER BY id
+          FOR UPDATE
+        `,
+        [[...consumptionBySource.keys()]]
+      );
+      const reserved = await client.query<{ inventory_id: number; reserved_qty: number }>(
+        RESERVED_BY_SOURCE_SQL,
+        [input.alternativeGroupId ?? planId]
+      );
+      const qtyById = new Map(sources.rows.map((row) => [row.id, row.qty]));
+      const reservedByOthers = new Map(reserved.rows.map((row) => [row.inventory_id, row.reserved_qty]));
+      for (const [sourceId, usedCount] of consumptionBySource.entries()) {
+        const qty = qtyById.get(sourceId);
+        if (qty === undefined || qty - (reservedByOthers.get(sourceId) ?? 0) < usedCount) {
+          throw new ConflictError("Stock was reserved by another plan, plan again");
+        }
+      }
+
+      await client.query(
+        `
+          INSERT INTO plans (
+            id,
+            status,
+            params_json,
+            order_json,
+            result_json,
+            parts_json,
+            expires_at,
+            alternative_group_id,
+            inventory_classes,
+            order_ids
+          )
+          VALUES ($1, 'PLANNED', $2, $3, $4, $5, NOW() + $6::int * INTERVAL '1 millisecond', $7, $8, $9)
+        `,
+        [
+          planId,
+          JSON.stringify(input.params),
+          JSON.stringify(input.orderLines),
+          JSON.stringify(input.result),
+          input.parts ? JSON.stringify(input.parts) : null,
+          this.reservationTtlMs,
+          input.alternativeGroupId ?? null,
+          JSON.stringify(
+            input.parts
+              ? [...new Set(input.parts.map((part) => part.inventoryClass))]
+              : input.inventoryClass
+                ? [input.inventoryClass]
+                : []
+          ),
+          JSON.stringify(input.orderIds ?? [])
+        ]
+      );
+
+      await client.query("COMMIT");
+      return { planId };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPlan(planId: string): Promise<StoredPlan | null> {
+    const { rows } = await this.pool.query<PlanRow>(
       `
-        INSERT INTO plans (id, status, params_json, order_json, result_json)
-        VALUES ($1, 'PLANNED', $2, $3, $4)
+        SELECT ${PLAN_COLUMNS}
+        FROM plans
+        WHERE id = $1
       `,
-      [planId, JSON.stringify(input.params), JSON.stringify(input.orderLines), JSON.stringify(input.result)]
+      [planId]
     );
+    return rows.length > 0 ? mapPlanRow(rows[0]) : null;
+  }
 
-    return { planId };
+  async listPlans(filter: PlanListFilter): Promise<StoredPlan[]> {
+    const { rows } = await this.pool.query<PlanRow>(
+      `
+        SELECT *
+        FROM (
+          SELECT ${PLAN_COLUMNS}
+          FROM plans
+        ) AS listed
+        WHERE ($1::text IS NULL OR status = $1)
+          AND ($2::text IS NULL OR inventory_classes ? $2)
+          AND ($3::timestamptz IS NULL OR created_at >= $3)
+          AND ($4::timestamptz IS NULL OR created_at < $4)
+        ORDER BY created_at DESC, id DESC
+        LIMIT $5
+      `,
+      [
+        filter.status ?? null,
+        filter.inventoryClass ?? null,
+        filter.from ?? null,
+        filter.to ?? null,
+        filter.limit
+      ]
+    );
+    return rows.map(mapPlanRow);
   }
 
   async commitPlan(planId: string): Promise<CommitPlanResult> {
@@ -82,10 +526,22 @@ export class PostgresStore implements PlanStore {
 
       const plan = await client.query<{
         status: string;
+        params_json: PlanParams;
         result_json: CutPlanResult;
+        parts_json: PlanPart[] | null;
+        order_ids: string[];
+        live: boolean;
+        holder: string;
       }>(
         `
-          SELECT status, result_json
+          SELECT
+            status,
+            params_json,
+            result_json,
+            parts_json,
+            order_ids,
+            COALESCE(expires_at > NOW(), FALSE) AS live,
+            COALESCE(alternative_group_id, id) AS holder
           FROM plans
           WHERE id = $1
           FOR UPDATE
@@ -102,11 +558,83 @@ export class PostgresStore implements PlanStore {
         await client.query("COMMIT");
         return { status: "ALREADY_COMMITTED" };
       }
+      if (planStatus === "REVERTED") {
+        throw new ConflictError("Plan was reverted, plan again");
+      }
+      if (planStatus === "EXPIRED" || !plan.rows[0].live) {
+        throw new ConflictError("Plan reservation expired, plan again");
+      }
+
+      const orderIds = plan.rows[0].order_ids;
+      const linkedOrders = await client.query<{ id: string; status: OrderQueueStatus }>(
+        `
+          SELECT id, status
+          FROM order_entries
+          WHERE id = ANY($1::uuid[])
+          ORDER BY id
+          FOR UPDATE
+        `,
+        [orderIds]
+      );
+      const statusById = new Map(linkedOrders.rows.map((row) => [row.id, row.status]));
+      for (const orderId of orderIds) {
+        const status = statusById.get(orderId);
+        if (!status) {
+          throw new NotFoundError(`Order not found: ${orderId}`);
+        }
+        if (status === "CANCELLED") {
+          throw new ConflictError(`Order was cancelled: ${orderId}`);
+        }
+        if (!canTransitionOrder(status, "APPROVED", "PLAN_COMMIT")) {
+          throw new ConflictError(`Order was already accepted: ${orderId}`);
+        }
+      }
 
       const result = plan.rows[0].result_json;
       const consumptionBySource = summarizeConsumption(result.allocations);
       const sourceClassById = new Map<number, InventoryClass>();
 
+      const sources = await client.query<{
+        id: number;
+        length_mm: number;
+        qty: number;
+        is_remnant: boolean;
+        defects_json: unknown;
+      }>(
+        `
+          SELECT id, length_mm, qty, is_remnant, defects_json
+          FROM inventory
+          WHERE id = ANY($1::int[])
+          FOR UPDATE
+        `,
+        [[...consumptionBySource.keys()]]
+      );
+      const reserved = await client.query<{ inventory_id: number; reserved_qty: number }>(
+        RESERVED_BY_SOURCE_SQL,
+        [plan.rows[0].holder]
+      );
+      const reservedByOthers = new Map(reserved.rows.map((row) => [row.inventory_id, row.reserved_qty]));
+      const sourceItems = sources.rows.map((row) => ({
+        id: row.id,
+        lengthMm: row.length_mm,
+        qty: row.qty,
+        remnant: row.is_remnant,
+        defects: normalizeDefects(row.defects_json)
+      }));
+      for (const [sourceId, usedCount] of consumptionBySource.entries()) {
+        const source = sourceItems.find((item) => item.id === sourceId);
+        if (!source || source.qty - (reservedByOthers.get(sourceId) ?? 0) < usedCount) {
+          throw new ConflictError("Inventory changed, plan cannot be committed");
+        }
+      }
+
+      const parts = plan.rows[0].parts_json ?? [{ result, params: plan.rows[0].params_json }];
+      const violations = parts.flatMap((part) => validateCutPlan(part.result, sourceItems, part.params));
+      if (violations.length > 0) {
+        throw new InvalidPlanError("Plan is not consistent with the inventory", violations);
+      }
+
+      const reference = { planId, orderIds };
       for (const [sourceId, usedCount] of consumptionBySource.entries()) {
         const updated = await client.query<{ inventory_class: InventoryClass }>(
           `
@@ -123,19 +651,32 @@ export class PostgresStore implements PlanStore {
         }
 
         sourceClassById.set(sourceId, updated.rows[0].inventory_class);
+        await insertMovement(client, {
+          inventoryId: sourceId,
+          type: "PLAN_CONSUMPTION",
+          qtyDelta: -usedCount,
+          ...reference
+        });
       }
 
       const remnantByClassAndLength = summarizeRemnants(result.allocations, sourceClassById);
       for (const remnant of remnantByClassAndLength.values()) {
-        await client.query(
+        const stock = await client.query<{ id: number }>(
           `
-            INSERT INTO inventory (inventory_class, length_mm, qty)
-            VALUES ($1, $2, $3)
-            ON CONFLICT (inventory_class, length_mm)
+            INSERT INTO inventory (inventory_class, length_mm, qty, is_remnant, defects_json)
+            VALUES ($1, $2, $3, TRUE, $4::jsonb)
+            ON CONFLICT (inventory_class, length_mm, is_remnant, defects_json)
             DO UPDATE SET qty = inventory.qty + EXCLUDED.qty
+            RETURNING id
           `,
-          [remnant.inventoryClass, remnant.lengthMm, remnant.qty]
+          [remnant.inventoryClass, remnant.lengthMm, remnant.qty, JSON.stringify(remnant.defects)]
         );
+        await insertMovement(client, {
+          inventoryId: stock.rows[0].id,
+          type: "REMNANT_CREATED",
+          qtyDelta: remnant.qty,
+          ...reference
+        });
       }
 
       await client.query(
@@ -146,6 +687,25 @@ export class PostgresStore implements PlanStore {
         `,
         [planId]
       );
+      await client.query(
+        `
+          UPDATE plans
+          SET status = 'EXPIRED'
+          WHERE alternative_group_id = $1 AND status = 'PLANNED'
+        `,
+        [plan.rows[0].holder]
+      );
+      await client.query(
+        `
+          UPDATE order_entries
+          SET status = 'APPROVED',
+              accepted_at = NOW(),
+              accepted_plan_ids = jsonb_build_array($2::text),
+              status_history = status_history || $3::jsonb
+          WHERE id = ANY($1::uuid[])
+        `,
+        [orderIds, planId, statusChangeJson("RECEIVED", "APPROVED", "PLAN_COMMIT", new Date().toISOString())]
+      );
 
       await client.query("COMMIT");
       return { status: "COMMITTED" };
@@ -157,6 +717,135 @@ export class PostgresStore implements PlanStore {
     }
   }
 
+  async revertPlan(planId: string): Promise<RevertPlanResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const plan = await client.query<{ status: string; result_json: CutPlanResult }>(
+        `
+          SELECT status, result_json
+          FROM plans
+          WHERE id = $1
+          FOR UPDATE
+        `,
+        [planId]
+      );
+      if (plan.rowCount === 0) {
+        throw new NotFoundError("Plan not found");
+      }
+      if (plan.rows[0].status === "REVERTED") {
+        await client.query("COMMIT");
+        return { status: "ALREADY_REVERTED", reopenedOrderIds: [] };
+      }
+      if (plan.rows[0].status !== "COMMITTED") {
+        throw new ConflictError("Only a committed plan can be reverted");
+      }
+
+      const linkedOrders = await client.query<{ status: OrderQueueStatus }>(
+        "SELECT status FROM order_entries WHERE accepted_plan_ids ? $1 FOR UPDATE",
+        [planId]
+      );
+      if (linkedOrders.rows.some((row) => !canTransitionOrder(row.status, "RECEIVED", "PLAN_REVERT"))) {
+        throw new ConflictError("Orders from this plan are already in production, plan cannot be reverted");
+      }
+
+      const { allocations } = plan.rows[0].result_json;
+      const consumedBySource = summarizeConsumption(allocations);
+      const sources = await client.query<{ id: number; inventory_class: InventoryClass }>(
+        `
+          SELECT id, inventory_class
+          FROM inventory
+          WHERE id = ANY($1::int[])
+          FOR UPDATE
+        `,
+        [[...consumedBySource.keys()]]
+      );
+      const sourceClassById = new Map(sources.rows.map((row) => [row.id, row.inventory_class]));
+      if (sourceClassById.size < consumedBySource.size) {
+        throw new ConflictError("Inventory changed, plan cannot be reverted");
+      }
+
+      const reserved = await client.query<{ inventory_id: number; reserved_qty: number }>(
+        RESERVED_BY_SOURCE_SQL,
+        [null]
+      );
+      const reservedById = new Map(reserved.rows.map((row) => [row.inventory_id, row.reserved_qty]));
+      const removedRemnants: MovementInput[] = [];
+      for (const remnant of summarizeRemnants(allocations, sourceClassById).values()) {
+        const stock = await client.query<{ id: number; qty: number }>(
+          `
+            SELECT id, qty
+            FROM inventory
+            WHERE inventory_class = $1 AND length_mm = $2 AND is_remnant = TRUE AND defects_json = $3::jsonb
+            FOR UPDATE
+          `,
+          [remnant.inventoryClass, remnant.lengthMm, JSON.stringify(remnant.defects)]
+        );
+        const row = stock.rows[0];
+        if (!row || row.qty - (reservedById.get(row.id) ?? 0) < remnant.qty) {
+          throw new ConflictError("Remnants from this plan were already used, plan cannot be reverted");
+        }
+        await client.query("UPDATE inventory SET qty = qty - $2 WHERE id = $1", [row.id, remnant.qty]);
+        removedRemnants.push({ inventoryId: row.id, type: "REVERT", qtyDelta: -remnant.qty });
+      }
+
+      for (const [sourceId, count] of consumedBySource) {
+        await client.query("UPDATE inventory SET qty = qty + $2 WHERE id = $1", [sourceId, count]);
+      }
+
+      await client.query(
+        `
+          UPDATE plans
+          SET status = 'REVERTED', reverted_at = NOW()
+          WHERE id = $1
+        `,
+        [planId]
+      );
+      const reopened = await client.query<{ id: string }>(
+        `
+          UPDATE order_entries
+          SET status = 'RECEIVED',
+              accepted_at = NULL,
+              accepted_plan_ids = '[]'::jsonb,
+              status_history = status_history || $2::jsonb
+          WHERE accepted_plan_ids ? $1
+          RETURNING id
+        `,
+        [planId, statusChangeJson("APPROVED", "RECEIVED", "PLAN_REVERT", new Date().toISOString())]
+      );
+      const reopenedOrderIds = reopened.rows.map((row) => row.id);
+
+      const restoredSources = [...consumedBySource].map(
+        ([inventoryId, count]): MovementInput => ({ inventoryId, type: "REVERT", qtyDelta: count })
+      );
+      for (const movement of [...removedRemnants, ...restoredSources]) {
+        await insertMovement(client, { ...movement, planId, orderIds: reopenedOrderIds });
+      }
+
+      await client.query("COMMIT");
+      return { status: "REVERTED", reopenedOrderIds };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async expirePlans(): Promise<number> {
+    const { rowCount } = await this.pool.query(`
+      UPDATE plans
+      SET status = 'EXPIRED'
+      WHERE status = 'PLANNED' AND (expires_at IS NULL OR expires_at <= NOW())
+    `);
+    return rowCount ?? 0;
+  }
+
+  async releasePlan(planId: string): Promise<void> {
+    await this.pool.query("UPDATE plans SET status = 'EXPIRED' WHERE id = $1 AND status = 'PLANNED'", [planId]);
+  }
+
   async createOrders(input: CreateOrderInput[]): Promise<OrderQueueItem[]> {
     const created: OrderQueueItem[] = [];
 
@@ -172,22 +861,13 @@ export class PostgresStore implements PlanStore {
             qty,
             width_only,
             derived_from_width,
+            priority,
+            due_date,
             status,
             accepted_plan_ids
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, 'PENDING', '[]'::jsonb)
-          RETURNING
-            id,
-            inventory_class,
-            height_mm,
-            width_mm,
-            qty,
-            width_only,
-            derived_from_width,
-            status,
-            created_at,
-            accepted_at,
-            accepted_plan_ids
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'RECEIVED', '[]'::jsonb)
+          RETURNING ${ORDER_COLUMNS}
         `,
         [
           orderId,
@@ -196,7 +876,9 @@ export class PostgresStore implements PlanStore {
           entry.widthMm,
           entry.qty,
           entry.widthOnly,
-          entry.derivedFromWidth
+          entry.derivedFromWidth,
+          entry.priority,
+          entry.dueDate
         ]
       );
       created.push(mapOrderRow(rows[0]));
@@ -207,18 +889,7 @@ export class PostgresStore implements PlanStore {
 
   async listOrders(): Promise<OrderQueueItem[]> {
     const { rows } = await this.pool.query<OrderRow>(`
-      SELECT
-        id,
-        inventory_class,
-        height_mm,
-        width_mm,
-        qty,
-        width_only,
-        derived_from_width,
-        status,
-        created_at,
-        accepted_at,
-        accepted_plan_ids
+      SELECT ${ORDER_COLUMNS}
       FROM order_entries
       ORDER BY created_at DESC, id DESC
     `);
@@ -229,18 +900,7 @@ export class PostgresStore implements PlanStore {
   async getOrderById(orderId: string): Promise<OrderQueueItem | null> {
     const { rows } = await this.pool.query<OrderRow>(
       `
-      SELECT
-        id,
-        inventory_class,
-        height_mm,
-        width_mm,
-        qty,
-        width_only,
-        derived_from_width,
-        status,
-        created_at,
-        accepted_at,
-        accepted_plan_ids
+      SELECT ${ORDER_COLUMNS}
       FROM order_entries
       WHERE id = $1
     `,
@@ -254,44 +914,169 @@ export class PostgresStore implements PlanStore {
     return mapOrderRow(rows[0]);
   }
 
-  async markOrderAccepted(orderId: string, acceptedPlanIds: string[]): Promise<OrderQueueItem> {
-    const existing = await this.getOrderById(orderId);
-    if (!existing) {
-      throw new NotFoundError("Order not found");
+  async transitionOrder(orderId: string, to: OrderQueueStatus): Promise<OrderTransitionResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const existing = await client.query<OrderRow>(
+        `SELECT ${ORDER_COLUMNS} FROM order_entries WHERE id = $1 FOR UPDATE`,
+        [orderId]
+      );
+      if (existing.rowCount === 0) {
+        throw new NotFoundError("Order not found");
+      }
+      const order = mapOrderRow(existing.rows[0]);
+      if (order.status === to) {
+        await client.query("COMMIT");
+        return { status: "UNCHANGED", order };
+      }
+      if (!canTransitionOrder(order.status, to, "MANUAL")) {
+        throw new ConflictError(`Order cannot move from ${order.status} to ${to}`);
+      }
+
+      const at = new Date().toISOString();
+      const { rows } = await client.query<OrderRow>(
+        `
+          UPDATE order_entries
+          SET status = $2,
+              cancelled_at = COALESCE($3, cancelled_at),
+              status_history = status_history || $4::jsonb
+          WHERE id = $1
+          RETURNING ${ORDER_COLUMNS}
+        `,
+        [orderId, to, to === "CANCELLED" ? at : null, statusChangeJson(order.status, to, "MANUAL", at)]
+      );
+
+      await client.query("COMMIT");
+      return { status: "MOVED", order: mapOrderRow(rows[0]) };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
     }
+  }
+
+  async updateOrder(orderId: string, patch: OrderPatch): Promise<OrderQueueItem> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    if (existing.status === "ACCEPTED") {
-      return existing;
+      const existing = await client.query<OrderRow>(
+        `SELECT ${ORDER_COLUMNS} FROM order_entries WHERE id = $1 FOR UPDATE`,
+        [orderId]
+      );
+      if (existing.rowCount === 0) {
+        throw new NotFoundError("Order not found");
+      }
+      const order = mapOrderRow(existing.rows[0]);
+      if (order.status !== "RECEIVED") {
+        throw new ConflictError("Only a received order can be changed");
+      }
+
+      const { rows } = await client.query<OrderRow>(
+        `
+          UPDATE order_entries
+          SET inventory_class = $2,
+              height_mm = $3,
+              width_mm = $4,
+              qty = $5,
+              width_only = $6,
+              priority = $7,
+              due_date = $8
+          WHERE id = $1
+          RETURNING ${ORDER_COLUMNS}
+        `,
+        [
+          orderId,
+          patch.inventoryClass ?? order.inventoryClass,
+          patch.heightMm === undefined ? order.heightMm : patch.heightMm,
+          patch.widthMm ?? order.widthMm,
+          patch.qty ?? order.qty,
+          patch.widthOnly ?? order.widthOnly,
+          patch.priority ?? order.priority,
+          patch.dueDate === undefined ? order.dueDate : patch.dueDate
+        ]
+      );
+
+      await client.query("COMMIT");
+      return mapOrderRow(rows[0]);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
     }
+  }
 
+  async cancelOrder(orderId: string): Promise<CancelOrderResult> {
     const { rows } = await this.pool.query<OrderRow>(
       `
-      UPDATE order_entries
-      SET status = 'ACCEPTED',
-          accepted_at = NOW(),
-          accepted_plan_ids = $2::jsonb
-      WHERE id = $1
-      RETURNING
-        id,
-        inventory_class,
-        height_mm,
-        width_mm,
-        qty,
-        width_only,
-        derived_from_width,
-        status,
-        created_at,
-        accepted_at,
-        accepted_plan_ids
-    `,
-      [orderId, JSON.stringify(acceptedPlanIds)]
+        UPDATE order_entries
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            status_history = status_history || $2::jsonb
+        WHERE id = $1 AND status = 'RECEIVED'
+        RETURNING ${ORDER_COLUMNS}
+      `,
+      [orderId, statusChangeJson("RECEIVED", "CANCELLED", "MANUAL", new Date().toISOString())]
     );
+    if (rows.length > 0) {
+      return { status: "CANCELLED", order: mapOrderRow(rows[0]) };
+    }
 
-    if (rows.length === 0) {
+    const existing = await this.getOrderById(orderId);
+    if (!existing) {
       throw new NotFoundError("Order not found");
     }
+    if (existing.status === "CANCELLED") {
+      return { status: "ALREADY_CANCELLED", order: existing };
+    }
+    throw new ConflictError("An accepted order cannot be cancelled, revert its plan first");
+  }
 
-    return mapOrderRow(rows[0]);
+  private async takeInventory(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const stock = await client.query<{ qty: number }>("SELECT qty FROM inventory WHERE id = $1 FOR UPDATE", [
+        input.inventoryId
+      ]);
+      if (stock.rowCount === 0) {
+        throw new NotFoundError("Inventory item not found");
+      }
+      const reserved = await client.query<{ reserved_qty: number }>(
+        `
+          SELECT reserved_qty
+          FROM (${RESERVED_BY_SOURCE_SQL}) AS reserved
+          WHERE inventory_id = $2
+        `,
+        [null, input.inventoryId]
+      );
+      const previousQty = stock.rows[0].qty;
+      const availableQty = previousQty - (reserved.rows[0]?.reserved_qty ?? 0);
+      if (availableQty < input.qty) {
+        throw new ConflictError(`Only ${Math.max(availableQty, 0)} unreserved bars are on hand`);
+      }
+
+      await client.query("UPDATE inventory SET qty = qty - $2 WHERE id = $1", [input.inventoryId, input.qty]);
+      await insertMovement(client, {
+        inventoryId: input.inventoryId,
+        type: "ADJUSTMENT",
+        qtyDelta: -input.qty,
+        reason: input.reason,
+        note: input.note
+      });
+      await client.query("COMMIT");
+      return { inventoryId: input.inventoryId, previousQty, qty: previousQty - input.qty };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 }
 
@@ -303,12 +1088,48 @@ type OrderRow = {
   qty: number;
   width_only: boolean;
   derived_from_width: boolean;
-  status: "PENDING" | "ACCEPTED";
+  priority: OrderPriority;
+  due_date: string | null;
+  status: OrderQueueStatus;
   created_at: Date | string;
   accepted_at: Date | string | null;
   accepted_plan_ids: unknown;
+  cancelled_at: Date | string | null;
+  status_history: OrderStatusChange[] | null;
+};
+
+type RemnantSummary = {
+  inventoryClass: InventoryClass;
+  lengthMm: number;
+  qty: number;
+  defects: DefectZone[];
+};
+
+type ClassSettingsRow = {
+  inventory_class: InventoryClass;
+  params_json: unknown;
+  costs_json: unknown;
+  purchasable_lengths_json: unknown;
+  recipes_json: unknown;
+  splicing_json: unknown;
 };
 
+function mapClassSettingsRow(
+  inventoryClass: InventoryClass,
+  row: ClassSettingsRow | undefined
+): InventoryClassSettings {
+  const params = planParamsPatchSchema.safeParse(row?.params_json ?? {});
+  const costs = planCostsPatchSchema.safeParse(row?.costs_json ?? {});
+  return {
+    inventoryClass,
+    params: params.success ? params.data : {},
+    costs: costs.success ? costs.data : {},
+    purchasableLengthsMm: normalizeLengths(row?.purchasable_lengths_json),
+    recipes: normalizeRecipes(row?.recipes_json),
+    splicing: normalizeSplicing(row?.splicing_json)
+  };
+}
+
 function summarizeConsumption(allocations: Allocation[]): Map<number, number> {
   const map = new Map<number, number>();
   for (const allocation of allocations) {
@@ -320,8 +1141,8 @@ function summarizeConsumption(allocations: Allocation[]): Map<number, number> {
 function summarizeRemnants(
   allocations: Allocation[],
   sourceClassById: Map<number, InventoryClass>
-): Map<string, { inventoryClass: InventoryClass; lengthMm: number; qty: number }> {
-  const map = new Map<string, { inventoryClass: InventoryClass; lengthMm: number; qty: number }>();
+): Map<string, RemnantSummary> {
+  const map = new Map<string, RemnantSummary>();
   for (const allocation of allocations) {
     if (!allocation.remnantKept) {
       continue;
@@ -332,7 +1153,8 @@ function summarizeRemnants(
       throw new ConflictError("Inventory changed, plan cannot be committed");
     }
 
-    const key = toInventoryKey(allocation.remnantMm, inventoryClass);
+    const defects = normalizeDefects(allocation.remnantDefects);
+    const key = toInventoryKey(allocation.remnantMm, inventoryClass, defects);
     const existing = map.get(key);
     if (existing) {
       existing.qty += 1;
@@ -341,14 +1163,131 @@ function summarizeRemnants(
     map.set(key, {
       inventoryClass,
       lengthMm: allocation.remnantMm,
-      qty: 1
+      qty: 1,
+      defects
     });
   }
   return map;
 }
 
-function toInventoryKey(lengthMm: number, inventoryClass: InventoryClass): string {
-  return `${inventoryClass}:${lengthMm}`;
+function toInventoryKey(lengthMm: number, inventoryClass: InventoryClass, defects: DefectZone[]): string {
+  return `${inventoryClass}:${lengthMm}:${JSON.stringify(defects)}`;
+}
+
+function normalizeLengths(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const lengths = value.filter((entry): entry is number => typeof entry === "number" && entry > 0);
+  return [...new Set(lengths.map(Math.round))].sort((a, b) => a - b);
+}
+
+function normalizeRecipes(value: unknown): ProductRecipe[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    const parsed = productRecipeSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function normalizeSplicing(value: unknown): SpliceOptions | null {
+  const parsed = spliceOptionsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Sorted so equal defect sets compare equal in the unique index. */
+function normalizeDefects(value: unknown): DefectZone[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter(
+      (entry): entry is DefectZone =>
+        typeof entry?.offsetMm === "number" && typeof entry?.lengthMm === "number" && entry.lengthMm > 0
+    )
+    .map((entry) => ({ offsetMm: Math.round(entry.offsetMm), lengthMm: Math.round(entry.lengthMm) }))
+    .sort((a, b) => a.offsetMm - b.offsetMm || a.lengthMm - b.lengthMm);
+}
+
+type PlanRow = {
+  id: string;
+  status: PlanState;
+  inventory_classes: InventoryClass[];
+  params_json: PlanParams;
+  order_json: OrderLineMm[];
+  result_json: CutPlanResult;
+  parts_json: PlanPart[] | null;
+  order_ids: string[];
+  alternative_group_id: string | null;
+  created_at: Date | string;
+  committed_at: Date | string | null;
+  expires_at: Date | string | null;
+  reverted_at: Date | string | null;
+};
+
+function mapPlanRow(row: PlanRow): StoredPlan {
+  return {
+    id: row.id,
+    status: row.status,
+    inventoryClasses: row.inventory_classes,
+    params: row.params_json,
+    orderLines: row.order_json,
+    result: row.result_json,
+    parts: row.parts_json ?? undefined,
+    orderIds: row.order_ids,
+    alternativeGroupId: row.alternative_group_id ?? undefined,
+    createdAt: toIsoString(row.created_at),
+    committedAt: row.committed_at ? toIsoString(row.committed_at) : null,
+    expiresAt: row.expires_at ? toIsoString(row.expires_at) : null,
+    revertedAt: row.reverted_at ? toIsoString(row.reverted_at) : null
+  };
+}
+
+type MovementRow = {
+  id: number;
+  inventory_id: number;
+  inventory_class: InventoryClass;
+  length_mm: number;
+  is_remnant: boolean;
+  movement_type: InventoryMovement["type"];
+  qty_delta: number;
+  plan_id: string | null;
+  order_ids: string[];
+  reason: InventoryMovement["reason"];
+  note: string | null;
+  created_at: Date | string;
+};
+
+function mapMovementRow(row: MovementRow): InventoryMovement {
+  return {
+    id: row.id,
+    inventoryId: row.inventory_id,
+    inventoryClass: row.inventory_class,
+    lengthMm: row.length_mm,
+    remnant: row.is_remnant,
+    type: row.movement_type,
+    qtyDelta: row.qty_delta,
+    planId: row.plan_id,
+    orderIds: row.order_ids,
+    reason: row.reason,
+    note: row.note,
+    createdAt: toIsoString(row.created_at)
+  };
+}
+
+/** Appends to the ledger inside the caller's transaction, so it moves with the stock it describes. */
+async function insertMovement(client: PoolClient, movement: MovementInput): Promise<void> {
+  await client.query(INSERT_MOVEMENT_SQL, [
+    movement.inventoryId,
+    movement.type,
+    movement.qtyDelta,
+    movement.planId ?? null,
+    JSON.stringify(movement.orderIds ?? []),
+    movement.reason ?? null,
+    movement.note ?? null
+  ]);
 }
 
 function mapOrderRow(row: OrderRow): OrderQueueItem {
@@ -360,15 +1299,30 @@ function mapOrderRow(row: OrderRow): OrderQueueItem {
     qty: row.qty,
     widthOnly: row.width_only,
     derivedFromWidth: row.derived_from_width,
+    priority: row.priority,
+    dueDate: row.due_date,
     status: row.status,
     createdAt: toIsoString(row.created_at),
     acceptedAt: row.accepted_at ? toIsoString(row.accepted_at) : null,
     acceptedPlanIds: Array.isArray(row.accepted_plan_ids)
       ? row.accepted_plan_ids.filter((x): x is string => typeof x === "string")
-      : []
+      : [],
+    cancelledAt: row.cancelled_at ? toIsoString(row.cancelled_at) : null,
+    statusHistory: row.status_history ?? []
   };
 }
 
+/** A one-entry array to append to `status_history`. */
+function statusChangeJson(
+  from: OrderQueueStatus,
+  to: OrderQueueStatus,
+  trigger: OrderTransitionTrigger,
+  at: string
+): string {
+  const change: OrderStatusChange = { from, to, trigger, at };
+  return JSON.stringify([change]);
+}
+
 function toIsoString(value: Date | string): string {
   if (value instanceof Date) {
     return value.toISOString();
@@ -5,7 +5,8 @@ export const migrationStatements = [
       inventory_class TEXT NOT NULL DEFAULT 'Komarnici' CHECK (inventory_class IN ('Komarnici', 'Prozorske daske')),
       length_mm INTEGER NOT NULL CHECK (length_mm > 0),
       qty INTEGER NOT NULL CHECK (qty >= 0),
-      UNIQUE (inventory_class, length_mm),
+      is_remnant BOOLEAN NOT NULL DEFAULT FALSE,
+      defects_json JSONB NOT NULL DEFAULT '[]'::jsonb,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
   `,
@@ -45,8 +46,34 @@ export const migrationStatements = [
     END $$;
   `,
   `
-    CREATE UNIQUE INDEX IF NOT EXISTS inventory_class_length_mm_uniq
-    ON inventory (inventory_class, length_mm);
+    ALTER TABLE inventory
+    ADD COLUMN IF NOT EXISTS is_remnant BOOLEAN NOT NULL DEFAULT FALSE;
+  `,
+  `
+    ALTER TABLE inventory
+    DROP CONSTRAINT IF EXISTS inventory_inventory_class_length_mm_key;
+  `,
+  `
+    DROP INDEX IF EXISTS inventory_class_length_mm_uniq;
+  `,
+  `
+    ALTER TABLE inventory
+    ADD COLUMN IF NOT EXISTS defects_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  `
+    ALTER TABLE inventory
+    DROP CONSTRAINT IF EXISTS inventory_inventory_class_length_mm_is_remnant_key;
+  `,
+  `
+    DROP INDEX IF EXISTS inventory_class_length_mm_remnant_uniq;
+  `,
+  `
+    ALTER TABLE inventory
+    DROP CONSTRAINT IF EXISTS inventory_inventory_class_length_mm_is_remnant_defects_json_key;
+  `,
+  `
+    CREATE UNIQUE INDEX IF NOT EXISTS inventory_class_length_mm_remnant_defects_uniq
+    ON inventory (inventory_class, length_mm, is_remnant, defects_json);
   `,
   `
     INSERT INTO inventory (inventory_class, length_mm, qty)
@@ -56,7 +83,7 @@ export const migrationStatements = [
       ('Komarnici', 7000, 6),
       ('Prozorske daske', 10000, 10),
       ('Prozorske daske', 20000, 15)
-    ON CONFLICT (inventory_class, length_mm)
+    ON CONFLICT (inventory_class, length_mm, is_remnant, defects_json)
     DO NOTHING;
   `,
   `
@@ -92,5 +119,136 @@ export const migrationStatements = [
   `
     CREATE INDEX IF NOT EXISTS order_entries_status_created_idx
     ON order_entries (status, created_at DESC);
+  `,
+  `
+    CREATE TABLE IF NOT EXISTS inventory_class_settings (
+      inventory_class TEXT PRIMARY KEY CHECK (inventory_class IN ('Komarnici', 'Prozorske daske')),
+      params_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+      costs_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+      purchasable_lengths_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+  `
+    ALTER TABLE inventory_class_settings
+    ADD COLUMN IF NOT EXISTS costs_json JSONB NOT NULL DEFAULT '{}'::jsonb;
+  `,
+  `
+    ALTER TABLE inventory_class_settings
+    ADD COLUMN IF NOT EXISTS purchasable_lengths_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  `
+    ALTER TABLE inventory_class_settings
+    ADD COLUMN IF NOT EXISTS recipes_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  `
+    ALTER TABLE inventory_class_settings
+    ADD COLUMN IF NOT EXISTS splicing_json JSONB NULL;
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS parts_json JSONB NULL;
+  `,
+  `
+    ALTER TABLE order_entries
+    ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'NORMAL'
+    CHECK (priority IN ('LOW', 'NORMAL', 'HIGH', 'URGENT'));
+  `,
+  `
+    ALTER TABLE order_entries
+    ADD COLUMN IF NOT EXISTS due_date DATE NULL;
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS order_entries_status_due_date_idx
+    ON order_entries (status, due_date);
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ NULL;
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS plans_status_expires_idx
+    ON plans (status, expires_at);
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS alternative_group_id UUID NULL;
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS inventory_classes JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS plans_created_at_idx
+    ON plans (created_at DESC);
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMPTZ NULL;
+  `,
+  `
+    ALTER TABLE plans
+    DROP CONSTRAINT IF EXISTS plans_status_check,
+    ADD CONSTRAINT plans_status_check CHECK (status IN ('PLANNED', 'COMMITTED', 'EXPIRED', 'REVERTED'));
+  `,
+  `
+    ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS order_ids JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  `
+    CREATE TABLE IF NOT EXISTS inventory_movements (
+      id SERIAL PRIMARY KEY,
+      inventory_id INTEGER NOT NULL REFERENCES inventory (id),
+      movement_type TEXT NOT NULL
+        CHECK (movement_type IN ('ADDITION', 'PLAN_CONSUMPTION', 'REMNANT_CREATED', 'ADJUSTMENT', 'REVERT')),
+      qty_delta INTEGER NOT NULL,
+      plan_id UUID NULL REFERENCES plans (id),
+      order_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+      reason TEXT NULL,
+      note TEXT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS inventory_movements_created_at_idx
+    ON inventory_movements (created_at DESC);
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS inventory_movements_inventory_created_idx
+    ON inventory_movements (inventory_id, created_at);
+  `,
+  `
+    CREATE INDEX IF NOT EXISTS inventory_movements_plan_idx
+    ON inventory_movements (plan_id);
+  `,
+  `
+    INSERT INTO inventory_movements (inventory_id, movement_type, qty_delta, note)
+    SELECT inventory.id, 'ADDITION', inventory.qty, 'Opening balance'
+    FROM inventory
+    WHERE inventory.qty > 0
+      AND NOT EXISTS (SELECT 1 FROM inventory_movements WHERE inventory_movements.inventory_id = inventory.id)
+    ORDER BY inventory.id;
+  `,
+  `
+    ALTER TABLE order_entries
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ NULL;
+  `,
+  `
+    ALTER TABLE order_entries
+    DROP CONSTRAINT IF EXISTS order_entries_status_check;
+  `,
+  `
+    UPDATE order_entries
+    SET status = CASE status WHEN 'PENDING' THEN 'RECEIVED' ELSE 'APPROVED' END
+    WHERE status IN ('PENDING', 'ACCEPTED');
+  `,
+  `
+    ALTER TABLE order_entries
+    ADD CONSTRAINT order_entries_status_check
+    CHECK (status IN ('RECEIVED', 'APPROVED', 'CUT', 'ASSEMBLED', 'DELIVERED', 'CANCELLED'));
+  `,
+  `
+    ALTER TABLE order_entries
+    ADD COLUMN IF NOT EXISTS status_history JSONB NOT NULL DEFAULT '[]'::jsonb;
   `
 ];
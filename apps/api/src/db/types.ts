@@ -1,19 +1,94 @@
-import type { InventoryClass, InventoryItem, PlanParams } from "@cutting/contracts";
+import type {
+  DefectZone,
+  InventoryClass,
+  InventoryAdjustmentReason,
+  InventoryClassSettings,
+  InventoryItem,
+  InventoryMovementType,
+  InventoryStock,
+  InventoryWriteOffReason,
+  OrderPriority,
+  OrderQueueStatus,
+  OrderTransitionTrigger,
+  PlanParams
+} from "@cutting/contracts";
 import type { CutPlanResult, OrderLineMm } from "@cutting/cutting-core";
 
-export type PlanState = "PLANNED" | "COMMITTED" | "EXPIRED";
+export type PlanState = "PLANNED" | "COMMITTED" | "EXPIRED" | "REVERTED";
+
+export type StoreOptions = {
+  /** How long a `PLANNED` plan holds the bars it uses before it expires. */
+  reservationTtlMs: number;
+};
+
+export const DEFAULT_RESERVATION_TTL_MS = 15 * 60_000;
+
+/** One class of a plan that spans inventory classes. */
+export type PlanPart = {
+  inventoryClass: InventoryClass;
+  params: PlanParams;
+  orderLines: OrderLineMm[];
+  result: CutPlanResult;
+};
 
 export type CreatePlanInput = {
+  /** Class of a single-class plan; parts name their own. */
+  inventoryClass?: InventoryClass;
   params: PlanParams;
   orderLines: OrderLineMm[];
   result: CutPlanResult;
+  /** Set when the plan spans classes; `result` then combines the parts, and each part is validated with its own params. */
+  parts?: PlanPart[];
+  /** Orders the plan is cut for; committing it approves them, and its stock movements reference them. */
+  orderIds?: string[];
+  /**
+   * Shared by plans that are alternatives for the same order. Together they
+   * reserve only what the largest of them needs per bar, and committing one
+   * expires the rest.
+   */
+  alternativeGroupId?: string;
+};
+
+export type StoredPlan = Omit<CreatePlanInput, "inventoryClass"> & {
+  id: string;
+  /** `EXPIRED` as soon as the reservation runs out, even before the sweeper has run. */
+  status: PlanState;
+  inventoryClasses: InventoryClass[];
+  createdAt: string;
+  committedAt: string | null;
+  expiresAt: string | null;
+  revertedAt: string | null;
+};
+
+export type PlanListFilter = {
+  status?: PlanState;
+  /** Plans that cut from this class, alone or among others. */
+  inventoryClass?: InventoryClass;
+  /** Created at or after. */
+  from?: Date;
+  /** Created before. */
+  to?: Date;
+  limit: number;
 };
 
 export type CommitPlanResult = {
   status: "COMMITTED" | "ALREADY_COMMITTED";
 };
 
-export type OrderQueueStatus = "PENDING" | "ACCEPTED";
+export type RevertPlanResult = {
+  status: "REVERTED" | "ALREADY_REVERTED";
+  /** Orders the plan had accepted, now back to `RECEIVED`. */
+  reopenedOrderIds: string[];
+};
+
+export type { OrderQueueStatus };
+
+export type OrderStatusChange = {
+  from: OrderQueueStatus;
+  to: OrderQueueStatus;
+  trigger: OrderTransitionTrigger;
+  at: string;
+};
 
 export type CreateOrderInput = {
   inventoryClass: InventoryClass;
@@ -22,6 +97,9 @@ export type CreateOrderInput = {
   qty: number;
   widthOnly: boolean;
   derivedFromWidth: boolean;
+  priority: OrderPriority;
+  /** `YYYY-MM-DD`, or null when the order has no deadline. */
+  dueDate: string | null;
 };
 
 export type OrderQueueItem = {
@@ -32,21 +110,141 @@ export type OrderQueueItem = {
   qty: number;
   widthOnly: boolean;
   derivedFromWidth: boolean;
+  priority: OrderPriority;
+  dueDate: string | null;
   status: OrderQueueStatus;
   createdAt: string;
   acceptedAt: string | null;
   acceptedPlanIds: string[];
+  cancelledAt: string | null;
+  /** Every status change, oldest first. */
+  statusHistory: OrderStatusChange[];
 };
 
+/** Omitted fields keep their value. */
+export type OrderPatch = Partial<
+  Pick<CreateOrderInput, "inventoryClass" | "heightMm" | "widthMm" | "qty" | "widthOnly" | "priority" | "dueDate">
+>;
+
+export type OrderTransitionResult = {
+  status: "MOVED" | "UNCHANGED";
+  order: OrderQueueItem;
+};
+
+export type CancelOrderResult = {
+  status: "CANCELLED" | "ALREADY_CANCELLED";
+  order: OrderQueueItem;
+};
+
+export type InventoryAdjustmentInput<Reason = InventoryAdjustmentReason> = {
+  inventoryId: number;
+  qty: number;
+  reason: Reason;
+  note?: string;
+};
+
+export type InventoryAdjustmentResult = {
+  inventoryId: number;
+  previousQty: number;
+  qty: number;
+};
+
+/** One append-only ledger entry: a signed change to the count of one inventory row. */
+export type InventoryMovement = {
+  id: number;
+  inventoryId: number;
+  inventoryClass: InventoryClass;
+  lengthMm: number;
+  remnant: boolean;
+  type: InventoryMovementType;
+  qtyDelta: number;
+  planId: string | null;
+  orderIds: string[];
+  reason: InventoryAdjustmentReason | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export type InventoryMovementFilter = {
+  inventoryId?: number;
+  inventoryClass?: InventoryClass;
+  lengthMm?: number;
+  type?: InventoryMovementType;
+  planId?: string;
+  orderId?: string;
+  reason?: InventoryAdjustmentReason;
+  /** Recorded at or after. */
+  from?: Date;
+  /** Recorded before. */
+  to?: Date;
+  limit: number;
+};
+
+/** Fields are merged over the stored settings; omitted keys keep their value. */
+export type ClassSettingsPatch = Partial<Omit<InventoryClassSettings, "inventoryClass">>;
+
 export interface PlanStore {
   migrate(): Promise<void>;
-  listInventory(): Promise<InventoryItem[]>;
-  addInventory(lengthMm: number, qty: number, inventoryClass: InventoryClass): Promise<void>;
+  listInventory(): Promise<InventoryStock[]>;
+  addInventory(
+    lengthMm: number,
+    qty: number,
+    inventoryClass: InventoryClass,
+    remnant?: boolean,
+    defects?: DefectZone[]
+  ): Promise<void>;
+  /** Takes bars out of stock; bars reserved by open plans cannot be removed. */
+  removeInventory(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult>;
+  /**
+   * Replaces the count, as after a stocktake. Reservations are not checked:
+   * the count is what is on the rack, and plans that no longer fit fail to commit.
+   */
+  setInventoryQty(input: InventoryAdjustmentInput): Promise<InventoryAdjustmentResult>;
+  /** Removes damaged, lost or scrapped bars, with the same limits as `removeInventory`. */
+  writeOffInventory(input: InventoryAdjustmentInput<InventoryWriteOffReason>): Promise<InventoryAdjustmentResult>;
+  /** Newest first. */
+  listMovements(filter: InventoryMovementFilter): Promise<InventoryMovement[]>;
+  /** Stock on hand at `asOf`: today's counts with every later movement undone. */
+  inventoryAsOf(asOf: Date): Promise<InventoryItem[]>;
+  listClassSettings(): Promise<InventoryClassSettings[]>;
+  getClassSettings(inventoryClass: InventoryClass): Promise<InventoryClassSettings>;
+  updateClassSettings(
+    inventoryClass: InventoryClass,
+    patch: ClassSettingsPatch
+  ): Promise<InventoryClassSettings>;
+  /**
+   * Saves a `PLANNED` plan that reserves its bars until the TTL runs out.
+   * Fails with a conflict when another live plan has reserved those bars in
+   * the meantime.
+   */
   createPlan(input: CreatePlanInput): Promise<{ planId: string }>;
+  getPlan(planId: string): Promise<StoredPlan | null>;
+  /** Newest first. */
+  listPlans(filter: PlanListFilter): Promise<StoredPlan[]>;
+  /**
+   * Takes the plan's bars off stock and moves its orders `RECEIVED` →
+   * `APPROVED` in one step. Fails with a conflict, changing nothing, when any
+   * of those orders was cancelled or already accepted.
+   */
   commitPlan(planId: string): Promise<CommitPlanResult>;
+  /**
+   * Puts back the bars a committed plan consumed and takes out the remnants it
+   * added, then reopens the orders it accepted. Fails with a conflict when
+   * those remnants are no longer on hand or an order has moved past `APPROVED`.
+   */
+  revertPlan(planId: string): Promise<RevertPlanResult>;
+  /** Marks plans whose reservation ran out as `EXPIRED`, releasing their bars; returns how many. */
+  expirePlans(): Promise<number>;
+  /** Marks a `PLANNED` plan `EXPIRED` straight away; any other status is left alone. */
+  releasePlan(planId: string): Promise<void>;
   createOrders(input: CreateOrderInput[]): Promise<OrderQueueItem[]>;
   listOrders(): Promise<OrderQueueItem[]>;
   getOrderById(orderId: string): Promise<OrderQueueItem | null>;
-  markOrderAccepted(orderId: string, acceptedPlanIds: string[]): Promise<OrderQueueItem>;
+  /** Moves an order by hand; only `MANUAL` moves from `ORDER_TRANSITIONS` are allowed. */
+  transitionOrder(orderId: string, to: OrderQueueStatus): Promise<OrderTransitionResult>;
+  /** Only `RECEIVED` orders can be changed. */
+  updateOrder(orderId: string, patch: OrderPatch): Promise<OrderQueueItem>;
+  /** Withdraws a `RECEIVED` order; it stays listed as `CANCELLED`. An accepted order needs its plan reverted first. */
+  cancelOrder(orderId: string): Promise<CancelOrderResult>;
   close(): Promise<void>;
 }
@@ -0,0 +1,37 @@
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { PlanCancelledError, PlanLimitError, PlanTimeoutError } from "../utils/errors";
+
+/** Aborts when the client goes away before the response has been sent. */
+export function abortOnDisconnect(request: FastifyRequest, reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.once("close", () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort();
+    }
+  });
+  request.raw.once("aborted", () => controller.abort());
+  return controller.signal;
+}
+
+export function isPlanningError(
+  error: unknown
+): error is PlanLimitError | PlanTimeoutError | PlanCancelledError {
+  return (
+    error instanceof PlanLimitError || error instanceof PlanTimeoutError || error instanceof PlanCancelledError
+  );
+}
+
+/** Maps planner failures to a response; a cancelled request has no client left to read it. */
+export function planningFailure(
+  error: PlanLimitError | PlanTimeoutError | PlanCancelledError,
+  reply: FastifyReply
+): { ok: false; code: string; error: string } {
+  if (error instanceof PlanLimitError) {
+    reply.code(422);
+  } else if (error instanceof PlanTimeoutError) {
+    reply.code(503);
+  } else {
+    reply.code(499);
+  }
+  return { ok: false, code: error.code, error: error.message };
+}
@@ -0,0 +1,141 @@
+import type {
+  InventoryItem,
+  PlanAlgorithm,
+  PlanCosts,
+  PlanObjective,
+  PlanParams
+} from "@cutting/contracts";
+import {
+  buildCutPlanHeuristic,
+  buildCutPlanLocalSearch,
+  buildCutPlanOptimal,
+  compareHeuristicPlans,
+  countSplicedPieces,
+  type CutPlanResult,
+  type HeuristicPlanComparison,
+  type LocalSearchOptions,
+  missingPiecesOf,
+  type OrderLineMm,
+  type PurchaseSuggestion,
+  type SpliceOptions,
+  suggestPurchase,
+  WIDTH_ONLY_RECIPE
+} from "@cutting/cutting-core";
+
+export type OrderPlanJob = {
+  algorithm: PlanAlgorithm;
+  inventoryItems: InventoryItem[];
+  orderLines: OrderLineMm[];
+  /** Lines without a recipe cut two widths instead of a full frame. */
+  widthOnly: boolean;
+  params: PlanParams;
+  costs: PlanCosts;
+  objective: PlanObjective;
+  search?: LocalSearchOptions;
+  splicing?: SpliceOptions;
+  /** Catalog the purchase suggestion is drawn from; empty skips the suggestion. */
+  purchasableLengthsMm: number[];
+};
+
+export type PlannedOrder = {
+  plan: CutPlanResult;
+  purchaseSuggestion: PurchaseSuggestion | null;
+};
+
+export type CompareJob = {
+  inventoryItems: InventoryItem[];
+  orderLines: OrderLineMm[];
+  widthOnly: boolean;
+  params: PlanParams;
+  costs: PlanCosts;
+  splicing?: SpliceOptions;
+};
+
+export type PurchaseJob = {
+  piecesMm: number[];
+  purchasableLengthsMm: number[];
+  params: PlanParams;
+  costs: PlanCosts;
+  objective: PlanObjective;
+};
+
+/** Work that may run long enough to block the event loop, so it is handed to a worker thread. */
+export type PlanJob =
+  | { kind: "PLAN"; input: OrderPlanJob }
+  | { kind: "COMPARE"; input: CompareJob }
+  | { kind: "PURCHASE"; input: PurchaseJob };
+
+export type PlanJobOutput = PlannedOrder | HeuristicPlanComparison[] | PurchaseSuggestion;
+
+export function runPlanJob(job: PlanJob): PlanJobOutput {
+  switch (job.kind) {
+    case "PLAN":
+      return planOrder(job.input);
+    case "COMPARE":
+      return compareOrder(job.input);
+    case "PURCHASE":
+      return suggestPurchase(job.input);
+  }
+}
+
+/** Pieces a job would hand to the solvers, spliced segments included, counted without expanding the order. */
+export function countJobPieces(job: PlanJob): number {
+  if (job.kind === "PURCHASE") {
+    return job.input.piecesMm.length;
+  }
+  const { orderLines, widthOnly, inventoryItems, params, splicing } = job.input;
+  return countSplicedPieces(withRecipes(orderLines, widthOnly), inventoryItems, params, splicing);
+}
+
+function planOrder(input: OrderPlanJob): PlannedOrder {
+  const plan = planOrderLines(input);
+  const piecesMm = missingPiecesOf(plan);
+  if (piecesMm.length === 0 || input.purchasableLengthsMm.length === 0) {
+    return { plan, purchaseSuggestion: null };
+  }
+
+  return {
+    plan,
+    purchaseSuggestion: suggestPurchase({
+      piecesMm,
+      purchasableLengthsMm: input.purchasableLengthsMm,
+      params: input.params,
+      costs: input.costs,
+      objective: input.objective
+    })
+  };
+}
+
+/** `objective` only steers the optimal solver and local search; heuristics always place greedily. */
+function planOrderLines(input: OrderPlanJob): CutPlanResult {
+  const { algorithm, inventoryItems, params, costs, objective, search, splicing } = input;
+  const orderLines = withRecipes(input.orderLines, input.widthOnly);
+  const solver = { timeBudgetMs: search?.timeBudgetMs };
+
+  switch (algorithm) {
+    case "OPTIMAL":
+      return buildCutPlanOptimal({ inventoryItems, orderLines, params, costs, objective, solver, splicing });
+    case "LOCAL_SEARCH":
+      return buildCutPlanLocalSearch({ inventoryItems, orderLines, params, costs, objective, search, splicing });
+    default:
+      return buildCutPlanHeuristic({ strategy: algorithm, inventoryItems, orderLines, params, costs, splicing });
+  }
+}
+
+function compareOrder(input: CompareJob): HeuristicPlanComparison[] {
+  const { inventoryItems, params, costs, splicing } = input;
+  return compareHeuristicPlans({
+    inventoryItems,
+    orderLines: withRecipes(input.orderLines, input.widthOnly),
+    params,
+    costs,
+    splicing
+  });
+}
+
+function withRecipes(orderLines: OrderLineMm[], widthOnly: boolean): OrderLineMm[] {
+  if (!widthOnly) {
+    return orderLines;
+  }
+  return orderLines.map((line) => (line.recipe ? line : { ...line, recipe: WIDTH_ONLY_RECIPE }));
+}
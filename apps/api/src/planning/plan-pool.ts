@@ -0,0 +1,198 @@
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import type { HeuristicPlanComparison, PurchaseSuggestion } from "@cutting/cutting-core";
+import { PlanCancelledError, PlanLimitError, PlanTimeoutError } from "../utils/errors";
+import {
+  type CompareJob,
+  countJobPieces,
+  type OrderPlanJob,
+  type PlanJob,
+  type PlanJobOutput,
+  type PlannedOrder,
+  type PurchaseJob
+} from "./plan-jobs";
+
+export type PlanWorkerPoolOptions = {
+  /** Worker threads kept for planning; further jobs wait in a queue. */
+  size: number;
+  /** Counted from submission, so time spent in the queue is included. */
+  timeoutMs: number;
+  /** Jobs that expand to more pieces are rejected before reaching a worker. */
+  maxPieces: number;
+};
+
+export type PlanRunOptions = {
+  /** Aborting drops a queued job or terminates the worker running it. */
+  signal?: AbortSignal;
+};
+
+type WorkerReply = { ok: true; output: PlanJobOutput } | { ok: false; error: string };
+
+type Task = {
+  job: PlanJob;
+  resolve: (output: PlanJobOutput) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort: () => void;
+  worker?: Worker;
+};
+
+// `.ts` under tsx in development, `.js` when running from dist.
+const SOURCE_EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, `plan-worker${SOURCE_EXTENSION}`);
+
+/**
+ * Planning is synchronous and CPU bound, so it runs on worker threads to keep
+ * the event loop free. A job that times out or is cancelled cannot be
+ * interrupted, so its worker is terminated and replaced on demand.
+ */
+export class PlanWorkerPool {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, Task>();
+  private readonly queue: Task[] = [];
+  private closed = false;
+
+  constructor(private readonly options: PlanWorkerPoolOptions) {}
+
+  plan(input: OrderPlanJob, options?: PlanRunOptions): Promise<PlannedOrder> {
+    return this.run({ kind: "PLAN", input }, options) as Promise<PlannedOrder>;
+  }
+
+  compare(input: CompareJob, options?: PlanRunOptions): Promise<HeuristicPlanComparison[]> {
+    return this.run({ kind: "COMPARE", input }, options) as Promise<HeuristicPlanComparison[]>;
+  }
+
+  purchase(input: PurchaseJob, options?: PlanRunOptions): Promise<PurchaseSuggestion> {
+    return this.run({ kind: "PURCHASE", input }, options) as Promise<PurchaseSuggestion>;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new PlanCancelledError("Planner is shutting down");
+    for (const task of [...this.queue, ...this.busy.values()]) {
+      this.fail(task, error);
+    }
+    await Promise.all([...this.workers].map((worker) => worker.terminate()));
+    this.workers.clear();
+    this.idle.length = 0;
+  }
+
+  private run(job: PlanJob, options?: PlanRunOptions): Promise<PlanJobOutput> {
+    const pieces = countJobPieces(job);
+    if (pieces > this.options.maxPieces) {
+      return Promise.reject(
+        new PlanLimitError(`Order expands to ${pieces} pieces; the limit is ${this.options.maxPieces}`)
+      );
+    }
+    if (this.closed) {
+      return Promise.reject(new PlanCancelledError("Planner is shutting down"));
+    }
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(new PlanCancelledError("Request was cancelled"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const task: Task = {
+        job,
+        resolve,
+        reject,
+        signal,
+        onAbort: () => this.fail(task, new PlanCancelledError("Request was cancelled"))
+      };
+      task.timer = setTimeout(
+        () => this.fail(task, new PlanTimeoutError(`Planning did not finish within ${this.options.timeoutMs} ms`)),
+        this.options.timeoutMs
+      );
+      signal?.addEventListener("abort", task.onAbort, { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (!this.closed && this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.size < this.options.size ? this.spawn() : undefined);
+      if (!worker) {
+        return;
+      }
+      const task = this.queue.shift() as Task;
+      task.worker = worker;
+      this.busy.set(worker, task);
+      worker.postMessage(task.job);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = startWorker();
+    this.workers.add(worker);
+
+    worker.on("message", (reply: WorkerReply) => {
+      const task = this.busy.get(worker);
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      if (task) {
+        this.settle(task);
+        if (reply.ok) {
+          task.resolve(reply.output);
+        } else {
+          task.reject(new Error(reply.error));
+        }
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      const task = this.busy.get(worker);
+      this.discard(worker);
+      if (task) {
+        this.settle(task);
+        task.reject(error);
+      }
+      this.dispatch();
+    });
+
+    return worker;
+  }
+
+  /** Rejects a task wherever it is; a running task takes its worker down with it. */
+  private fail(task: Task, error: Error): void {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else if (task.worker && this.busy.get(task.worker) === task) {
+      this.discard(task.worker);
+    } else {
+      return;
+    }
+    this.settle(task);
+    task.reject(error);
+    this.dispatch();
+  }
+
+  private settle(task: Task): void {
+    clearTimeout(task.timer);
+    task.signal?.removeEventListener("abort", task.onAbort);
+  }
+
+  private discard(worker: Worker): void {
+    this.busy.delete(worker);
+    this.workers.delete(worker);
+    const idleIdx = this.idle.indexOf(worker);
+    if (idleIdx !== -1) {
+      this.idle.splice(idleIdx, 1);
+    }
+    void worker.terminate();
+  }
+}
+
+/** tsx does not register itself inside worker threads, so the source worker is loaded through it explicitly. */
+function startWorker(): Worker {
+  if (SOURCE_EXTENSION !== ".ts") {
+    return new Worker(WORKER_FILE);
+  }
+  const loader = JSON.stringify(require.resolve("tsx/cjs"));
+  return new Worker(`require(${loader}); require(${JSON.stringify(WORKER_FILE)});`, { eval: true });
+}
@@ -0,0 +1,16 @@
+import { parentPort } from "node:worker_threads";
+import { type PlanJob, runPlanJob } from "./plan-jobs";
+
+if (!parentPort) {
+  throw new Error("plan-worker must run inside a worker thread");
+}
+
+const port = parentPort;
+
+port.on("message", (job: PlanJob) => {
+  try {
+    port.postMessage({ ok: true, output: runPlanJob(job) });
+  } catch (error) {
+    port.postMessage({ ok: false, error: error instanceof Error ? error.message : "Planning failed" });
+  }
+});
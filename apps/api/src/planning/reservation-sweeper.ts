@@ -0,0 +1,52 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { PlanStore } from "../db/types";
+
+export type ReservationSweeperOptions = {
+  /** How often plans past their reservation are looked for. */
+  intervalMs: number;
+};
+
+/**
+ * Expires `PLANNED` plans whose reservation ran out so their bars are listed
+ * as available again. A sweep that is still running when the next one is due
+ * is not overlapped; failures are logged and retried on the next tick.
+ */
+export class ReservationSweeper {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly store: PlanStore,
+    private readonly options: ReservationSweeperOptions,
+    private readonly log: FastifyBaseLogger
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.running ??= this.sweep().finally(() => {
+        this.running = undefined;
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      const expired = await this.store.expirePlans();
+      if (expired > 0) {
+        this.log.info({ expired }, "Expired plan reservations");
+      }
+    } catch (error) {
+      this.log.error({ err: error }, "Plan reservation sweep failed");
+    }
+  }
+}
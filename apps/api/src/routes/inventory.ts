@@ -1,9 +1,27 @@
-import { inventoryAddRequestSchema } from "@cutting/contracts";
-import type { FastifyInstance } from "fastify";
+import {
+  inventoryAddRequestSchema,
+  inventoryClassSettingsUpdateRequestSchema,
+  inventoryMovementListQuerySchema,
+  inventoryRemoveRequestSchema,
+  inventorySetRequestSchema,
+  inventorySnapshotQuerySchema,
+  inventoryWriteOffRequestSchema,
+  mergePlanCosts,
+  mergePlanParams,
+  type ProductRecipe,
+  purchaseSuggestionRequestSchema
+} from "@cutting/contracts";
+import { compilePieceFormula, type PurchaseSuggestion } from "@cutting/cutting-core";
+import type { FastifyInstance, FastifyReply } from "fastify";
 import type { PlanStore } from "../db/types";
+import { abortOnDisconnect, isPlanningError, planningFailure } from "../planning/http";
+import type { PlanWorkerPool } from "../planning/plan-pool";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { toMillimeters } from "../utils/units";
 
 type InventoryRoutesOptions = {
   store: PlanStore;
+  planner: PlanWorkerPool;
 };
 
 export async function registerInventoryRoutes(
@@ -15,6 +33,36 @@ export async function registerInventoryRoutes(
     return { items };
   });
 
+  app.get("/inventory/movements", async (request, reply) => {
+    const parsed = inventoryMovementListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid query",
+        details: parsed.error.issues
+      };
+    }
+
+    const items = await options.store.listMovements(parsed.data);
+    return { items };
+  });
+
+  app.get("/inventory/snapshot", async (request, reply) => {
+    const parsed = inventorySnapshotQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid query",
+        details: parsed.error.issues
+      };
+    }
+
+    const items = await options.store.inventoryAsOf(parsed.data.asOf);
+    return { asOf: parsed.data.asOf.toISOString(), items };
+  });
+
   app.post("/inventory/add", async (request, reply) => {
     const parsed = inventoryAddRequestSchema.safeParse(request.body);
     if (!parsed.success) {
@@ -26,7 +74,186 @@ export async function registerInventoryRoutes(
       };
     }
 
-    await options.store.addInventory(parsed.data.lengthMm, parsed.data.qty, parsed.data.inventoryClass);
+    await options.store.addInventory(
+      parsed.data.lengthMm,
+      parsed.data.qty,
+      parsed.data.inventoryClass,
+      parsed.data.remnant,
+      parsed.data.defects
+    );
     return { ok: true };
   });
+
+  app.post("/inventory/remove", async (request, reply) => {
+    const parsed = inventoryRemoveRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.removeInventory(parsed.data);
+      request.log.info({ ...parsed.data, ...result }, "Inventory adjusted");
+      return { ok: true, ...result };
+    } catch (error) {
+      return adjustmentFailure(error, reply);
+    }
+  });
+
+  app.post("/inventory/set", async (request, reply) => {
+    const parsed = inventorySetRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.setInventoryQty(parsed.data);
+      request.log.info({ ...parsed.data, ...result }, "Inventory adjusted");
+      return { ok: true, ...result };
+    } catch (error) {
+      return adjustmentFailure(error, reply);
+    }
+  });
+
+  app.post("/inventory/write-off", async (request, reply) => {
+    const parsed = inventoryWriteOffRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.writeOffInventory(parsed.data);
+      request.log.info({ ...parsed.data, ...result }, "Inventory adjusted");
+      return { ok: true, ...result };
+    } catch (error) {
+      return adjustmentFailure(error, reply);
+    }
+  });
+
+  app.get("/inventory/settings", async () => {
+    const items = await options.store.listClassSettings();
+    return { items };
+  });
+
+  app.post("/inventory/settings", async (request, reply) => {
+    const parsed = inventoryClassSettingsUpdateRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    const formulaIssues = recipeFormulaIssues(parsed.data.recipes ?? []);
+    if (formulaIssues.length > 0) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid recipe formula",
+        details: formulaIssues
+      };
+    }
+
+    const settings = await options.store.updateClassSettings(parsed.data.inventoryClass, {
+      params: parsed.data.params,
+      costs: parsed.data.costs,
+      purchasableLengthsMm: parsed.data.purchasableLengthsMm,
+      recipes: parsed.data.recipes,
+      splicing: parsed.data.splicing
+    });
+    return { ok: true, settings };
+  });
+
+  app.post("/inventory/purchase-suggestion", async (request, reply) => {
+    const parsed = purchaseSuggestionRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    const piecesMm = parsed.data.pieces.map((piece) => toMillimeters(piece, parsed.data.units));
+    if (piecesMm.some((piece) => piece <= 0)) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Pieces must be positive after unit normalization"
+      };
+    }
+
+    const settings = await options.store.getClassSettings(parsed.data.inventoryClass);
+    let purchaseSuggestion: PurchaseSuggestion;
+    try {
+      purchaseSuggestion = await options.planner.purchase(
+        {
+          piecesMm,
+          purchasableLengthsMm: settings.purchasableLengthsMm,
+          params: mergePlanParams(parsed.data.params, settings.params),
+          costs: mergePlanCosts(settings.costs),
+          objective: parsed.data.objective
+        },
+        { signal: abortOnDisconnect(request, reply) }
+      );
+    } catch (error) {
+      if (isPlanningError(error)) {
+        return planningFailure(error, reply);
+      }
+      throw error;
+    }
+
+    return {
+      ok: true,
+      inventoryClass: parsed.data.inventoryClass,
+      purchaseSuggestion
+    };
+  });
+}
+
+/** Maps adjustment failures to a response; anything unexpected is rethrown. */
+function adjustmentFailure(error: unknown, reply: FastifyReply) {
+  if (error instanceof NotFoundError) {
+    reply.code(404);
+    return { ok: false, error: error.message };
+  }
+  if (error instanceof ConflictError) {
+    reply.code(409);
+    return { ok: false, error: error.message };
+  }
+  throw error;
+}
+
+function recipeFormulaIssues(recipes: ProductRecipe[]): Array<{ path: Array<string | number>; message: string }> {
+  const issues: Array<{ path: Array<string | number>; message: string }> = [];
+  recipes.forEach((recipe, recipeIdx) => {
+    recipe.pieces.forEach((piece, pieceIdx) => {
+      try {
+        compilePieceFormula(piece.lengthFormula);
+      } catch (error) {
+        issues.push({
+          path: ["recipes", recipeIdx, "pieces", pieceIdx, "lengthFormula"],
+          message: error instanceof Error ? error.message : "Invalid formula"
+        });
+      }
+    });
+  });
+  return issues;
 }
@@ -1,23 +1,52 @@
+import { randomUUID } from "crypto";
 import {
+  availableStock,
+  combinedPlanRequestSchema,
   type InventoryClass,
+  inventoryClassSchema,
+  type InventoryItem,
+  mergePlanCosts,
   mergePlanParams,
+  ORDER_TRANSITIONS,
+  type PlanAlgorithm,
+  type PlanCosts,
+  type PlanObjective,
+  type PlanParams,
+  type PlanParamsPatch,
+  type ProductRecipe,
+  type SpliceOptions,
+  orderAcceptSelectedRequestSchema,
   orderCommitRequestSchema,
+  orderIdParamsSchema,
+  orderListQuerySchema,
   orderPlanRequestSchema,
-  orderQueueCreateRequestSchema
+  orderQueueCreateRequestSchema,
+  orderQueueStatusSchema,
+  orderTransitionRequestSchema,
+  orderUpdateRequestSchema
 } from "@cutting/contracts";
 import {
-  buildCutPlanBFD,
-  buildCutPlanBFDForPieces,
+  combineCutPlans,
   type CutPlanResult,
-  type OrderLineMm
+  type HeuristicPlanComparison,
+  type LocalSearchOptions,
+  missingPiecesOf,
+  type OrderLineMm,
+  type PurchaseSuggestion,
+  WIDTH_ONLY_RECIPE
 } from "@cutting/cutting-core";
-import type { FastifyInstance } from "fastify";
-import type { OrderQueueItem, PlanStore } from "../db/types";
-import { ConflictError, NotFoundError } from "../utils/errors";
+import type { FastifyInstance, FastifyReply } from "fastify";
+import type { OrderPatch, OrderQueueItem, PlanPart, PlanStore } from "../db/types";
+import { abortOnDisconnect, isPlanningError, planningFailure } from "../planning/http";
+import type { OrderPlanJob, PlannedOrder } from "../planning/plan-jobs";
+import type { PlanWorkerPool } from "../planning/plan-pool";
+import { ConflictError, InvalidPlanError, NotFoundError } from "../utils/errors";
+import { queryOrders, urgencyTiers } from "../utils/order-queue";
 import { toMillimeters } from "../utils/units";
 
 type OrdersRoutesOptions = {
   store: PlanStore;
+  planner: PlanWorkerPool;
 };
 
 const DEFAULT_INVENTORY_CLASS: InventoryClass = "Komarnici";
@@ -26,8 +55,18 @@ export async function registerOrdersRoutes(
   app: FastifyInstance,
   options: OrdersRoutesOptions
 ): Promise<void> {
-  app.get("/orders", async () => {
-    const items = await options.store.listOrders();
+  app.get("/orders", async (request, reply) => {
+    const parsed = orderListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid query",
+        details: parsed.error.issues
+      };
+    }
+
+    const items = queryOrders(await options.store.listOrders(), parsed.data);
     return { items };
   });
 
@@ -48,7 +87,9 @@ export async function registerOrdersRoutes(
       widthMm: toMillimeters(row.width, parsed.data.units),
       qty: Math.round(row.qty),
       widthOnly: row.widthOnly === true,
-      derivedFromWidth: row.derivedFromWidth === true
+      derivedFromWidth: row.derivedFromWidth === true,
+      priority: row.priority,
+      dueDate: row.dueDate ?? null
     }));
 
     const hasInvalidLength = items.some((item) => {
@@ -73,9 +114,122 @@ export async function registerOrdersRoutes(
     };
   });
 
-  app.post<{ Params: { orderId: string } }>("/orders/:orderId/accept", async (request, reply) => {
+  app.patch("/orders/:orderId", async (request, reply) => {
+    const params = orderIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
+    const parsed = orderUpdateRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    const { units, height, width, ...fields } = parsed.data;
+    const patch: OrderPatch = {
+      ...fields,
+      heightMm: height === undefined || height === null ? height : toMillimeters(height, units),
+      widthMm: width === undefined ? undefined : toMillimeters(width, units)
+    };
+    if ((patch.heightMm != null && patch.heightMm <= 0) || (patch.widthMm !== undefined && patch.widthMm <= 0)) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Order rows must be positive after unit normalization"
+      };
+    }
+
+    try {
+      const order = await options.store.updateOrder(params.data.orderId, patch);
+      const items = await options.store.listOrders();
+      return { ok: true, order, items };
+    } catch (error) {
+      return orderChangeFailure(error, reply);
+    }
+  });
+
+  app.delete("/orders/:orderId", async (request, reply) => {
+    const params = orderIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.cancelOrder(params.data.orderId);
+      const items = await options.store.listOrders();
+      return { ok: true, ...result, items };
+    } catch (error) {
+      return orderChangeFailure(error, reply);
+    }
+  });
+
+  app.get("/orders/lifecycle", async () => ({
+    statuses: orderQueueStatusSchema.options,
+    transitions: ORDER_TRANSITIONS
+  }));
+
+  app.post("/orders/:orderId/transition", async (request, reply) => {
+    const params = orderIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
+    const parsed = orderTransitionRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.transitionOrder(params.data.orderId, parsed.data.status);
+      const items = await options.store.listOrders();
+      return { ok: true, ...result, items };
+    } catch (error) {
+      return orderChangeFailure(error, reply);
+    }
+  });
+
+  app.post("/orders/:orderId/accept", async (request, reply) => {
+    const params = orderIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
     try {
-      const result = await acceptStoredOrder(request.params.orderId, options.store);
+      const result = await acceptStoredOrder(
+        params.data.orderId,
+        options,
+        abortOnDisconnect(request, reply)
+      );
       const items = await options.store.listOrders();
       const inventory = await options.store.listInventory();
       return {
@@ -85,59 +239,214 @@ export async function registerOrdersRoutes(
         inventory
       };
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      return acceptFailure(error, reply);
+    }
+  });
+
+  app.post("/orders/accept-all", async (request, reply) => {
+    const pending = (await options.store.listOrders()).filter((item) => item.status === "RECEIVED");
+    try {
+      const result = await acceptOrdersTogether(pending, options, abortOnDisconnect(request, reply));
+      const items = await options.store.listOrders();
+      const inventory = await options.store.listInventory();
+      return {
+        ok: true,
+        ...result,
+        items,
+        inventory
+      };
+    } catch (error) {
+      return acceptFailure(error, reply);
+    }
+  });
+
+  app.post("/orders/accept-selected", async (request, reply) => {
+    const parsed = orderAcceptSelectedRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      };
+    }
+
+    const selected: OrderQueueItem[] = [];
+    for (const orderId of new Set(parsed.data.orderIds)) {
+      const order = await options.store.getOrderById(orderId);
+      if (!order) {
         reply.code(404);
-        return { ok: false, error: error.message };
+        return { ok: false, error: `Order not found: ${orderId}` };
+      }
+      if (order.status === "CANCELLED") {
+        reply.code(409);
+        return { ok: false, error: `Order was cancelled: ${orderId}` };
       }
+      selected.push(order);
+    }
+
+    try {
+      const result = await acceptOrdersTogether(selected, options, abortOnDisconnect(request, reply));
+      const items = await options.store.listOrders();
+      const inventory = await options.store.listInventory();
+      return {
+        ok: true,
+        ...result,
+        items,
+        inventory
+      };
+    } catch (error) {
+      return acceptFailure(error, reply);
+    }
+  });
+
+  app.post("/orders/plan", async (request, reply) => {
+    const parsed = parsePlanRequest(request.body);
+    if ("failure" in parsed) {
+      reply.code(400);
+      return parsed.failure;
+    }
+
+    const { paramsPatch, inventoryClass, widthOnly, algorithm, objective, search } = parsed.input;
+    const { params, costs, purchasableLengthsMm, recipes, splicing } = await resolvePlanSettings(
+      options.store,
+      inventoryClass,
+      paramsPatch
+    );
+    const resolved = applyRecipes(parsed.input.orderLines, parsed.input.recipeNames, recipes, inventoryClass);
+    if ("failure" in resolved) {
+      reply.code(400);
+      return resolved.failure;
+    }
+    const { orderLines } = resolved;
+    const inventoryItems = availableStock(await options.store.listInventory()).filter(
+      (item) => item.inventoryClass === inventoryClass
+    );
+
+    let planned: PlannedOrder;
+    try {
+      planned = await options.planner.plan(
+        {
+          algorithm,
+          inventoryItems,
+          orderLines,
+          widthOnly,
+          params,
+          costs,
+          objective,
+          search,
+          splicing,
+          purchasableLengthsMm
+        },
+        { signal: abortOnDisconnect(request, reply) }
+      );
+    } catch (error) {
+      if (isPlanningError(error)) {
+        return planningFailure(error, reply);
+      }
+      throw error;
+    }
+    const planResult = planned.plan;
+
+    let planId: string;
+    try {
+      ({ planId } = await options.store.createPlan({
+        inventoryClass,
+        params,
+        orderLines,
+        result: planResult
+      }));
+    } catch (error) {
       if (error instanceof ConflictError) {
         reply.code(409);
         return { ok: false, error: error.message };
       }
       throw error;
     }
+
+    return {
+      ...planResult,
+      planId,
+      inventoryClass,
+      widthOnly,
+      algorithm,
+      objective,
+      purchaseSuggestion: planned.purchaseSuggestion
+    };
   });
 
-  app.post("/orders/accept-all", async () => {
-    const allOrders = await options.store.listOrders();
-    const pending = allOrders.filter((item) => item.status === "PENDING");
-
-    const results: Array<{
-      orderId: string;
-      status: "ACCEPTED" | "ALREADY_ACCEPTED" | "FAILED";
-      error?: string;
-      plan?: CutPlanResult & { planId: string };
-    }> = [];
-
-    for (const order of pending) {
-      try {
-        const result = await acceptStoredOrder(order.id, options.store);
-        results.push({
-          orderId: order.id,
-          status: result.status,
-          plan: result.plan
+  app.post("/orders/plan/compare", async (request, reply) => {
+    const parsed = parsePlanRequest(request.body);
+    if ("failure" in parsed) {
+      reply.code(400);
+      return parsed.failure;
+    }
+
+    const { paramsPatch, inventoryClass, widthOnly } = parsed.input;
+    const { params, costs, recipes, splicing } = await resolvePlanSettings(
+      options.store,
+      inventoryClass,
+      paramsPatch
+    );
+    const resolved = applyRecipes(parsed.input.orderLines, parsed.input.recipeNames, recipes, inventoryClass);
+    if ("failure" in resolved) {
+      reply.code(400);
+      return resolved.failure;
+    }
+    const { orderLines } = resolved;
+    const inventoryItems = availableStock(await options.store.listInventory()).filter(
+      (item) => item.inventoryClass === inventoryClass
+    );
+    let comparison: HeuristicPlanComparison[];
+    try {
+      comparison = await options.planner.compare(
+        { inventoryItems, orderLines, widthOnly, params, costs, splicing },
+        { signal: abortOnDisconnect(request, reply) }
+      );
+    } catch (error) {
+      if (isPlanningError(error)) {
+        return planningFailure(error, reply);
+      }
+      throw error;
+    }
+
+    const plans: Array<CutPlanResult & { planId: string; algorithm: PlanAlgorithm }> = [];
+    const alternativeGroupId = randomUUID();
+    try {
+      for (const entry of comparison) {
+        const { planId } = await options.store.createPlan({
+          inventoryClass,
+          params,
+          orderLines,
+          result: entry.result,
+          alternativeGroupId
         });
-      } catch (error) {
-        results.push({
-          orderId: order.id,
-          status: "FAILED",
-          error: error instanceof Error ? error.message : "Unexpected error"
+        plans.push({
+          ...entry.result,
+          planId,
+          algorithm: entry.strategy
         });
       }
+    } catch (error) {
+      for (const plan of plans) {
+        await options.store.releasePlan(plan.planId);
+      }
+      if (error instanceof ConflictError) {
+        reply.code(409);
+        return { ok: false, error: error.message };
+      }
+      throw error;
     }
 
-    const items = await options.store.listOrders();
-    const inventory = await options.store.listInventory();
-
     return {
-      ok: true,
-      results,
-      items,
-      inventory
+      inventoryClass,
+      widthOnly,
+      plans
     };
   });
 
-  app.post("/orders/plan", async (request, reply) => {
-    const parsed = orderPlanRequestSchema.safeParse(request.body);
+  app.post("/orders/plan/combined", async (request, reply) => {
+    const parsed = combinedPlanRequestSchema.safeParse(request.body);
     if (!parsed.success) {
       reply.code(400);
       return {
@@ -147,20 +456,23 @@ export async function registerOrdersRoutes(
       };
     }
 
-    const params = mergePlanParams(parsed.data.params);
-    const inventoryClass = resolveInventoryClass(request.body);
-    const widthOnly = resolveWidthOnly(request.body);
-
-    const orderLinesMm: OrderLineMm[] = parsed.data.orderLines.map((line) => ({
-      heightMm: toMillimeters(line.height, parsed.data.units),
-      widthMm: toMillimeters(line.width, parsed.data.units),
-      qty: Math.round(line.qty)
+    const { units, algorithm, objective } = parsed.data;
+    const lines = parsed.data.orderLines.map((line, lineIdx) => ({
+      inventoryClass: line.inventoryClass,
+      widthOnly: line.widthOnly,
+      recipeName: line.recipe,
+      // Refs default to the line's place in the whole order, not within its class.
+      orderLine: {
+        heightMm: toMillimeters(line.height, units),
+        widthMm: toMillimeters(line.width, units),
+        qty: Math.round(line.qty),
+        ref: line.ref ?? String(lineIdx)
+      }
     }));
 
-    const hasInvalidLength = orderLinesMm.some(
-      (line) => line.heightMm <= 0 || line.widthMm <= 0 || line.qty <= 0
+    const hasInvalidLength = lines.some(
+      ({ orderLine }) => orderLine.heightMm <= 0 || orderLine.widthMm <= 0 || orderLine.qty <= 0
     );
-
     if (hasInvalidLength) {
       reply.code(400);
       return {
@@ -169,32 +481,75 @@ export async function registerOrdersRoutes(
       };
     }
 
-    const inventoryItems = (await options.store.listInventory()).filter(
-      (item) => item.inventoryClass === inventoryClass
-    );
-    const planResult = widthOnly
-      ? buildCutPlanBFDForPieces({
-          inventoryItems,
-          piecesMm: expandOrderWidthsToPieces(orderLinesMm),
-          params
-        })
-      : buildCutPlanBFD({
-          inventoryItems,
-          orderLines: orderLinesMm,
-          params
-        });
+    const inventory = availableStock(await options.store.listInventory());
+    const jobs: ClassPlanJob[] = [];
+    for (const inventoryClass of inventoryClassSchema.options) {
+      const classLines = lines.filter((line) => line.inventoryClass === inventoryClass);
+      if (classLines.length === 0) {
+        continue;
+      }
 
-    const { planId } = await options.store.createPlan({
-      params,
-      orderLines: orderLinesMm,
-      result: planResult
-    });
+      const { params, costs, purchasableLengthsMm, recipes, splicing } = await resolvePlanSettings(
+        options.store,
+        inventoryClass,
+        parsed.data.params
+      );
+      const resolved = applyRecipes(
+        classLines.map((line) => line.orderLine),
+        classLines.map((line) => line.recipeName),
+        recipes,
+        inventoryClass
+      );
+      if ("failure" in resolved) {
+        reply.code(400);
+        return resolved.failure;
+      }
+
+      jobs.push({
+        inventoryClass,
+        job: {
+          algorithm,
+          inventoryItems: inventory.filter((item) => item.inventoryClass === inventoryClass),
+          orderLines: resolved.orderLines.map((line, lineIdx) =>
+            classLines[lineIdx].widthOnly && !line.recipe ? { ...line, recipe: WIDTH_ONLY_RECIPE } : line
+          ),
+          widthOnly: false,
+          params,
+          costs,
+          objective,
+          search: searchOptionsOf(parsed.data),
+          splicing,
+          purchasableLengthsMm
+        }
+      });
+    }
+
+    let planned: ClassesPlan;
+    try {
+      planned = await planAcrossClasses(
+        jobs,
+        mergePlanParams(parsed.data.params),
+        options,
+        abortOnDisconnect(request, reply)
+      );
+    } catch (error) {
+      if (isPlanningError(error)) {
+        return planningFailure(error, reply);
+      }
+      if (error instanceof ConflictError) {
+        reply.code(409);
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
 
     return {
-      ...planResult,
-      planId,
-      inventoryClass,
-      widthOnly
+      planId: planned.planId,
+      status: planned.result.status,
+      stats: planned.result.stats,
+      algorithm,
+      objective,
+      classes: planned.classes
     };
   });
 
@@ -229,69 +584,465 @@ export async function registerOrdersRoutes(
         reply.code(409);
         return { ok: false, error: error.message };
       }
+      if (error instanceof InvalidPlanError) {
+        reply.code(422);
+        return { ok: false, code: error.code, error: error.message, violations: error.violations };
+      }
       throw error;
     }
   });
 }
 
-async function acceptStoredOrder(orderId: string, store: PlanStore): Promise<{
+async function acceptStoredOrder(
+  orderId: string,
+  { store, planner }: OrdersRoutesOptions,
+  signal: AbortSignal
+): Promise<{
   status: "ACCEPTED" | "ALREADY_ACCEPTED";
   order: OrderQueueItem;
-  plan?: CutPlanResult & { planId: string };
+  plan?: CutPlanResult & { planId: string; purchaseSuggestion: PurchaseSuggestion | null };
 }> {
   const order = await store.getOrderById(orderId);
   if (!order) {
     throw new NotFoundError("Order not found");
   }
 
-  if (order.status === "ACCEPTED") {
+  if (order.status === "CANCELLED") {
+    throw new ConflictError("Order was cancelled");
+  }
+  if (order.status !== "RECEIVED") {
     return {
       status: "ALREADY_ACCEPTED",
       order
     };
   }
 
-  const params = mergePlanParams();
-  const orderLines: OrderLineMm[] = [
-    {
-      heightMm: order.heightMm ?? order.widthMm,
-      widthMm: order.widthMm,
-      qty: order.qty
-    }
-  ];
+  const { params, costs, purchasableLengthsMm, splicing } = await resolvePlanSettings(
+    store,
+    order.inventoryClass
+  );
+  const orderLines = [orderLineOf(order)];
 
-  const inventoryItems = (await store.listInventory()).filter(
+  const inventoryItems = availableStock(await store.listInventory()).filter(
     (item) => item.inventoryClass === order.inventoryClass
   );
 
-  const plan = order.widthOnly
-    ? buildCutPlanBFDForPieces({
-        inventoryItems,
-        piecesMm: expandOrderWidthsToPieces(orderLines),
-        params
-      })
-    : buildCutPlanBFD({
-        inventoryItems,
-        orderLines,
-        params
-      });
+  const { plan, purchaseSuggestion } = await planner.plan(
+    {
+      algorithm: "BFD",
+      inventoryItems,
+      orderLines,
+      widthOnly: false,
+      params,
+      costs,
+      objective: "WASTE",
+      splicing,
+      purchasableLengthsMm
+    },
+    { signal }
+  );
 
   const { planId } = await store.createPlan({
+    inventoryClass: order.inventoryClass,
     params,
     orderLines,
-    result: plan
+    result: plan,
+    orderIds: [order.id]
   });
 
-  await store.commitPlan(planId);
-  const acceptedOrder = await store.markOrderAccepted(order.id, [planId]);
+  await commitOrRelease(store, planId);
+  const acceptedOrder = await store.getOrderById(order.id);
+  if (!acceptedOrder) {
+    throw new NotFoundError("Order not found");
+  }
 
   return {
     status: "ACCEPTED",
     order: acceptedOrder,
     plan: {
       ...plan,
-      planId
+      planId,
+      purchaseSuggestion
+    }
+  };
+}
+
+type ClassPlanJob = { inventoryClass: InventoryClass; job: OrderPlanJob };
+
+type ClassesPlan = {
+  planId: string;
+  result: CutPlanResult;
+  classes: Array<
+    CutPlanResult & { inventoryClass: InventoryClass; purchaseSuggestion: PurchaseSuggestion | null }
+  >;
+};
+
+/** Plans each class against its own stock at once and stores the results as one plan. */
+async function planAcrossClasses(
+  jobs: ClassPlanJob[],
+  params: PlanParams,
+  { store, planner }: OrdersRoutesOptions,
+  signal: AbortSignal
+): Promise<ClassesPlan> {
+  const planned = await Promise.all(jobs.map(({ job }) => planner.plan(job, { signal })));
+  return storeClassPlans(
+    jobs.map(({ inventoryClass, job }, i) => ({
+      inventoryClass,
+      steps: [{ job, plan: planned[i].plan }],
+      purchaseSuggestion: planned[i].purchaseSuggestion
+    })),
+    params,
+    store
+  );
+}
+
+type ClassPlan = {
+  inventoryClass: InventoryClass;
+  /** Planned one after another, each on the stock the earlier steps left; usually just one. */
+  steps: Array<{ job: OrderPlanJob; plan: CutPlanResult }>;
+  purchaseSuggestion: PurchaseSuggestion | null;
+};
+
+async function storeClassPlans(
+  classPlans: ClassPlan[],
+  params: PlanParams,
+  store: PlanStore,
+  orderIds?: string[]
+): Promise<ClassesPlan> {
+  const parts: PlanPart[] = classPlans.flatMap(({ inventoryClass, steps }) =>
+    steps.map(({ job, plan }) => ({
+      inventoryClass,
+      params: job.params,
+      orderLines: job.orderLines,
+      result: plan
+    }))
+  );
+  const result = combineCutPlans(parts.map((part) => part.result));
+  const { planId } = await store.createPlan({
+    params,
+    orderLines: parts.flatMap((part) => part.orderLines),
+    result,
+    parts,
+    orderIds
+  });
+
+  return {
+    planId,
+    result,
+    classes: classPlans.map(({ inventoryClass, steps, purchaseSuggestion }) => ({
+      inventoryClass,
+      ...(steps.length === 1 ? steps[0].plan : combineCutPlans(steps.map((step) => step.plan))),
+      purchaseSuggestion
+    }))
+  };
+}
+
+/**
+ * Pools one class's orders into a single plan. When the stock cannot cover
+ * them all, the orders are planned again tier by tier, most urgent first, so
+ * the shortage falls on the least urgent ones. Later tiers only see the bars
+ * earlier tiers left whole; remnants appear once the plan is committed.
+ */
+async function planClassByUrgency(
+  inventoryClass: InventoryClass,
+  orders: OrderQueueItem[],
+  job: OrderPlanJob,
+  { planner }: OrdersRoutesOptions,
+  signal: AbortSignal
+): Promise<ClassPlan> {
+  const tiers = urgencyTiers(orders);
+  const pooledJob = { ...job, orderLines: tiers.flat().map(orderLineOf) };
+  const pooled = await planner.plan(pooledJob, { signal });
+  if (pooled.plan.shortage.length === 0 || tiers.length === 1) {
+    return {
+      inventoryClass,
+      steps: [{ job: pooledJob, plan: pooled.plan }],
+      purchaseSuggestion: pooled.purchaseSuggestion
+    };
+  }
+
+  const steps: ClassPlan["steps"] = [];
+  let inventoryItems = job.inventoryItems;
+  for (const tier of tiers) {
+    const tierJob = { ...job, inventoryItems, orderLines: tier.map(orderLineOf), purchasableLengthsMm: [] };
+    const { plan } = await planner.plan(tierJob, { signal });
+    steps.push({ job: tierJob, plan });
+    inventoryItems = withoutConsumedStock(inventoryItems, plan);
+  }
+
+  const piecesMm = missingPiecesOf(combineCutPlans(steps.map((step) => step.plan)));
+  const purchaseSuggestion =
+    piecesMm.length > 0 && job.purchasableLengthsMm.length > 0
+      ? await planner.purchase(
+          {
+            piecesMm,
+            purchasableLengthsMm: job.purchasableLengthsMm,
+            params: job.params,
+            costs: job.costs,
+            objective: job.objective
+          },
+          { signal }
+        )
+      : null;
+
+  return { inventoryClass, steps, purchaseSuggestion };
+}
+
+function withoutConsumedStock(inventoryItems: InventoryItem[], plan: CutPlanResult): InventoryItem[] {
+  const usedById = new Map<number, number>();
+  for (const allocation of plan.allocations) {
+    usedById.set(allocation.stock.sourceId, (usedById.get(allocation.stock.sourceId) ?? 0) + 1);
+  }
+  return inventoryItems
+    .map((item) => ({ ...item, qty: item.qty - (usedById.get(item.id) ?? 0) }))
+    .filter((item) => item.qty > 0);
+}
+
+type BatchAcceptResult = {
+  /** Shared by every order accepted in this batch; null when none was pending. */
+  planId: string | null;
+  results: Array<{ orderId: string; status: "ACCEPTED" | "ALREADY_ACCEPTED" }>;
+  plans: Array<ClassesPlan["classes"][number] & { planId: string }>;
+};
+
+/**
+ * Pools the pending orders' pieces per class so different orders can share a
+ * bar, commits the plan in one go and links every order to its id. Scarce
+ * stock goes to the most urgent orders first.
+ */
+async function acceptOrdersTogether(
+  orders: OrderQueueItem[],
+  options: OrdersRoutesOptions,
+  signal: AbortSignal
+): Promise<BatchAcceptResult> {
+  const { store } = options;
+  const pending = orders.filter((order) => order.status === "RECEIVED");
+  const results: BatchAcceptResult["results"] = orders.map((order) => ({
+    orderId: order.id,
+    status: order.status === "RECEIVED" ? "ACCEPTED" : "ALREADY_ACCEPTED"
+  }));
+  if (pending.length === 0) {
+    return { planId: null, results, plans: [] };
+  }
+
+  const inventory = availableStock(await store.listInventory());
+  const classJobs: Array<ClassPlanJob & { orders: OrderQueueItem[] }> = [];
+  for (const inventoryClass of inventoryClassSchema.options) {
+    const classOrders = pending.filter((order) => order.inventoryClass === inventoryClass);
+    if (classOrders.length === 0) {
+      continue;
     }
+    const { params, costs, purchasableLengthsMm, splicing } = await resolvePlanSettings(store, inventoryClass);
+    classJobs.push({
+      inventoryClass,
+      orders: classOrders,
+      job: {
+        algorithm: "BFD",
+        inventoryItems: inventory.filter((item) => item.inventoryClass === inventoryClass),
+        orderLines: [],
+        widthOnly: false,
+        params,
+        costs,
+        objective: "WASTE",
+        splicing,
+        purchasableLengthsMm
+      }
+    });
+  }
+
+  const classPlans = await Promise.all(
+    classJobs.map(({ inventoryClass, orders: classOrders, job }) =>
+      planClassByUrgency(inventoryClass, classOrders, job, options, signal)
+    )
+  );
+  const { planId, classes } = await storeClassPlans(
+    classPlans,
+    mergePlanParams(),
+    store,
+    pending.map((order) => order.id)
+  );
+  await commitOrRelease(store, planId);
+
+  return {
+    planId,
+    results,
+    plans: classes.map((entry) => ({ ...entry, planId }))
+  };
+}
+
+/** Commits a plan made just for this accept; if that fails its reservation is dropped rather than left to lapse. */
+async function commitOrRelease(store: PlanStore, planId: string): Promise<void> {
+  try {
+    await store.commitPlan(planId);
+  } catch (error) {
+    await store.releasePlan(planId);
+    throw error;
+  }
+}
+
+/** A stored order as one order line; width-only orders cut two widths. */
+function orderLineOf(order: OrderQueueItem): OrderLineMm {
+  const line: OrderLineMm = {
+    heightMm: order.heightMm ?? order.widthMm,
+    widthMm: order.widthMm,
+    qty: order.qty,
+    orderId: order.id
+  };
+  return order.widthOnly ? { ...line, recipe: WIDTH_ONLY_RECIPE } : line;
+}
+
+/** Maps edit, cancel and transition failures to a response; anything unexpected is rethrown. */
+function orderChangeFailure(error: unknown, reply: FastifyReply) {
+  if (error instanceof NotFoundError) {
+    reply.code(404);
+    return { ok: false, error: error.message };
+  }
+  if (error instanceof ConflictError) {
+    reply.code(409);
+    return { ok: false, error: error.message };
+  }
+  throw error;
+}
+
+/** Maps accept failures to a response; anything unexpected is rethrown. */
+function acceptFailure(error: unknown, reply: FastifyReply) {
+  if (error instanceof NotFoundError) {
+    reply.code(404);
+    return { ok: false, error: error.message };
+  }
+  if (error instanceof ConflictError) {
+    reply.code(409);
+    return { ok: false, error: error.message };
+  }
+  if (error instanceof InvalidPlanError) {
+    reply.code(422);
+    return { ok: false, code: error.code, error: error.message, violations: error.violations };
+  }
+  if (isPlanningError(error)) {
+    return planningFailure(error, reply);
+  }
+  throw error;
+}
+
+type ParsedPlanRequest = {
+  paramsPatch: PlanParamsPatch;
+  inventoryClass: InventoryClass;
+  widthOnly: boolean;
+  algorithm: PlanAlgorithm;
+  objective: PlanObjective;
+  search: LocalSearchOptions;
+  orderLines: OrderLineMm[];
+  /** Recipe each line names, index for index; resolved against the class settings. */
+  recipeNames: Array<string | undefined>;
+};
+
+function parsePlanRequest(
+  body: unknown
+): { input: ParsedPlanRequest } | { failure: { ok: false; error: string; details?: unknown } } {
+  const parsed = orderPlanRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      failure: {
+        ok: false,
+        error: "Invalid request body",
+        details: parsed.error.issues
+      }
+    };
+  }
+
+  const orderLines: OrderLineMm[] = parsed.data.orderLines.map((line) => ({
+    heightMm: toMillimeters(line.height, parsed.data.units),
+    widthMm: toMillimeters(line.width, parsed.data.units),
+    qty: Math.round(line.qty),
+    ref: line.ref
+  }));
+
+  const hasInvalidLength = orderLines.some(
+    (line) => line.heightMm <= 0 || line.widthMm <= 0 || line.qty <= 0
+  );
+
+  if (hasInvalidLength) {
+    return {
+      failure: {
+        ok: false,
+        error: "Order lines must be positive after unit normalization"
+      }
+    };
+  }
+
+  return {
+    input: {
+      paramsPatch: parsed.data.params,
+      inventoryClass: resolveInventoryClass(body),
+      widthOnly: resolveWidthOnly(body),
+      algorithm: parsed.data.algorithm,
+      objective: parsed.data.objective,
+      search: searchOptionsOf(parsed.data),
+      orderLines,
+      recipeNames: parsed.data.orderLines.map((line) => line.recipe)
+    }
+  };
+}
+
+/** A random seed is drawn when the request gives none; the plan reports it. */
+function searchOptionsOf(request: {
+  seed?: number;
+  timeBudgetMs?: number;
+  maxIterations?: number;
+}): LocalSearchOptions {
+  return {
+    seed: request.seed ?? Math.floor(Math.random() * 0x100000000),
+    timeBudgetMs: request.timeBudgetMs,
+    maxIterations: request.maxIterations
+  };
+}
+
+function applyRecipes(
+  orderLines: OrderLineMm[],
+  recipeNames: Array<string | undefined>,
+  recipes: ProductRecipe[],
+  inventoryClass: InventoryClass
+): { orderLines: OrderLineMm[] } | { failure: { ok: false; error: string } } {
+  const recipesByName = new Map(recipes.map((recipe) => [recipe.name, recipe]));
+  const unknown = recipeNames.find((name) => name !== undefined && !recipesByName.has(name));
+  if (unknown !== undefined) {
+    return {
+      failure: {
+        ok: false,
+        error: `Unknown recipe "${unknown}" for ${inventoryClass}`
+      }
+    };
+  }
+
+  return {
+    orderLines: orderLines.map((line, lineIdx) => {
+      const name = recipeNames[lineIdx];
+      return name === undefined ? line : { ...line, recipe: recipesByName.get(name) };
+    })
+  };
+}
+
+type ResolvedPlanSettings = {
+  params: PlanParams;
+  costs: PlanCosts;
+  purchasableLengthsMm: number[];
+  recipes: ProductRecipe[];
+  splicing?: SpliceOptions;
+};
+
+/** Prices come only from the class settings; plan parameters may also be overridden per request. */
+async function resolvePlanSettings(
+  store: PlanStore,
+  inventoryClass: InventoryClass,
+  patch?: PlanParamsPatch
+): Promise<ResolvedPlanSettings> {
+  const settings = await store.getClassSettings(inventoryClass);
+  return {
+    params: mergePlanParams(patch, settings.params),
+    costs: mergePlanCosts(settings.costs),
+    purchasableLengthsMm: settings.purchasableLengthsMm,
+    recipes: settings.recipes,
+    splicing: settings.splicing ?? undefined
   };
 }
 
@@ -316,15 +1067,3 @@ function resolveWidthOnly(body: unknown): boolean {
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
-
-function expandOrderWidthsToPieces(orderLines: OrderLineMm[]): number[] {
-  const pieces: number[] = [];
-  for (const line of orderLines) {
-    const widthMm = Math.max(0, Math.round(line.widthMm));
-    const qty = Math.max(0, Math.round(line.qty));
-    for (let i = 0; i < 2 * qty; i += 1) {
-      pieces.push(widthMm);
-    }
-  }
-  return pieces;
-}
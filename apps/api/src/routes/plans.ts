@@ -0,0 +1,97 @@
+import { planIdParamsSchema, planListQuerySchema } from "@cutting/contracts";
+import type { FastifyInstance } from "fastify";
+import type { PlanStore, StoredPlan } from "../db/types";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+type PlansRoutesOptions = {
+  store: PlanStore;
+};
+
+export async function registerPlansRoutes(app: FastifyInstance, options: PlansRoutesOptions): Promise<void> {
+  app.get("/plans", async (request, reply) => {
+    const parsed = planListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid query",
+        details: parsed.error.issues
+      };
+    }
+
+    const plans = await options.store.listPlans(parsed.data);
+    return { items: plans.map(planSummaryOf) };
+  });
+
+  app.get("/plans/:planId", async (request, reply) => {
+    const params = planIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
+    const plan = await options.store.getPlan(params.data.planId);
+    if (!plan) {
+      reply.code(404);
+      return { ok: false, error: "Plan not found" };
+    }
+
+    const { id, ...rest } = plan;
+    return { plan: { planId: id, ...rest } };
+  });
+
+  app.post("/plans/:planId/revert", async (request, reply) => {
+    const params = planIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      reply.code(400);
+      return {
+        ok: false,
+        error: "Invalid params",
+        details: params.error.issues
+      };
+    }
+
+    try {
+      const result = await options.store.revertPlan(params.data.planId);
+      const items = await options.store.listInventory();
+      return {
+        ok: true,
+        status: result.status,
+        reopenedOrderIds: result.reopenedOrderIds,
+        inventory: {
+          changed: result.status === "REVERTED",
+          items
+        }
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        reply.code(404);
+        return { ok: false, error: error.message };
+      }
+      if (error instanceof ConflictError) {
+        reply.code(409);
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
+  });
+}
+
+/** A history row: the plan's lifecycle and totals, without its allocations. */
+function planSummaryOf(plan: StoredPlan) {
+  return {
+    planId: plan.id,
+    status: plan.status,
+    inventoryClasses: plan.inventoryClasses,
+    resultStatus: plan.result.status,
+    stats: plan.result.stats,
+    createdAt: plan.createdAt,
+    committedAt: plan.committedAt,
+    expiresAt: plan.expiresAt,
+    revertedAt: plan.revertedAt
+  };
+}
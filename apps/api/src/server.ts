@@ -4,12 +4,16 @@ import { MemoryStore } from "./db/memory-store";
 import { PostgresStore } from "./db/postgres-store";
 
 async function start() {
-  const store = config.databaseUrl ? new PostgresStore(config.databaseUrl) : new MemoryStore();
+  const store = config.databaseUrl
+    ? new PostgresStore(config.databaseUrl, config.store)
+    : new MemoryStore(config.store);
   await store.migrate();
 
   const app = await buildApp({
     corsOrigins: config.corsOrigins,
-    store
+    store,
+    planner: config.planner,
+    sweeper: config.sweeper
   });
 
   app.addHook("onClose", async () => {
@@ -1,3 +1,5 @@
+import type { CutPlanViolation } from "@cutting/cutting-core";
+
 export class NotFoundError extends Error {
   constructor(message: string) {
     super(message);
@@ -12,3 +14,42 @@ export class ConflictError extends Error {
   }
 }
 
+export class PlanLimitError extends Error {
+  readonly code = "TOO_MANY_PIECES";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanLimitError";
+  }
+}
+
+export class PlanTimeoutError extends Error {
+  readonly code = "PLAN_TIMEOUT";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanTimeoutError";
+  }
+}
+
+export class PlanCancelledError extends Error {
+  readonly code = "PLAN_CANCELLED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanCancelledError";
+  }
+}
+
+/** The stored plan does not describe cuts that can actually be made from the stock. */
+export class InvalidPlanError extends Error {
+  readonly code = "INVALID_PLAN";
+
+  constructor(
+    message: string,
+    readonly violations: CutPlanViolation[]
+  ) {
+    super(message);
+    this.name = "InvalidPlanError";
+  }
+}
@@ -0,0 +1,82 @@
+import type { OrderListQuery, OrderListSort, OrderPriority } from "@cutting/contracts";
+import type { OrderQueueItem } from "../db/types";
+
+const PRIORITY_RANK: Record<OrderPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  NORMAL: 2,
+  LOW: 3
+};
+
+/** Most urgent first: higher priority, then earlier due date, then older order. */
+export function compareByUrgency(a: OrderQueueItem, b: OrderQueueItem): number {
+  return (
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    compareDueDates(a.dueDate, b.dueDate) ||
+    a.createdAt.localeCompare(b.createdAt) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Splits orders into runs of equal priority and due date, most urgent run
+ * first. Orders within a run are equally urgent and can share stock freely.
+ */
+export function urgencyTiers(orders: OrderQueueItem[]): OrderQueueItem[][] {
+  const tiers: OrderQueueItem[][] = [];
+  for (const order of [...orders].sort(compareByUrgency)) {
+    const tier = tiers[tiers.length - 1];
+    if (tier && tier[0].priority === order.priority && tier[0].dueDate === order.dueDate) {
+      tier.push(order);
+    } else {
+      tiers.push([order]);
+    }
+  }
+  return tiers;
+}
+
+/** Applies the list filters, then sorts; `createdAt` keeps the store's newest-first order. */
+export function queryOrders(orders: OrderQueueItem[], query: OrderListQuery): OrderQueueItem[] {
+  const filtered = orders.filter(
+    (order) =>
+      (query.status === undefined || order.status === query.status) &&
+      (query.priority === undefined || order.priority === query.priority) &&
+      (query.inventoryClass === undefined || order.inventoryClass === query.inventoryClass) &&
+      (query.dueBefore === undefined || (order.dueDate !== null && order.dueDate <= query.dueBefore))
+  );
+  return sortOrders(filtered, query.sort);
+}
+
+function sortOrders(orders: OrderQueueItem[], sort: OrderListSort): OrderQueueItem[] {
+  if (sort === "priority") {
+    return [...orders].sort(
+      (a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        compareDueDates(a.dueDate, b.dueDate) ||
+        b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+  if (sort === "dueDate") {
+    return [...orders].sort(
+      (a, b) =>
+        compareDueDates(a.dueDate, b.dueDate) ||
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+  return orders;
+}
+
+/** Earlier dates first; orders without a due date go last. */
+function compareDueDates(a: string | null, b: string | null): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return 1;
+  }
+  if (b === null) {
+    return -1;
+  }
+  return a.localeCompare(b);
+}
@@ -11,6 +11,17 @@ type InventoryItem = {
   inventoryClass: InventoryClass;
   lengthMm: number;
   qty: number;
+  /** Held by plans not yet committed; `availableQty` is what new plans may use. */
+  reservedQty: number;
+  availableQty: number;
+  remnant: boolean;
+  defects: Array<{ offsetMm: number; lengthMm: number }>;
+};
+
+type PieceTrace = {
+  orderLineRef: string;
+  orderId?: string;
+  role: string;
 };
 
 type PlanResponse = {
@@ -19,19 +30,65 @@ type PlanResponse = {
   cutList: Array<{ pieceMm: number; count: number }>;
   allocations: Array<{
     stock: { lengthMm: number; sourceId: number };
-    cuts: Array<{ pieceMm: number; effectiveMm: number }>;
+    cuts: Array<{
+      pieceMm: number;
+      effectiveMm: number;
+      offsetMm: number;
+      trailingKerfSkipped?: boolean;
+      toleranceUsedMm?: number;
+      orderLineRef?: string;
+      orderId?: string;
+      role?: PieceTrace["role"];
+      splice?: { spliceId: string; segment: number; segments: number };
+    }>;
     usedMm: number;
     remnantMm: number;
     remnantKept: boolean;
+    trimmedMm: number;
+    skippedMm: number;
+    remnantDefects?: Array<{ offsetMm: number; lengthMm: number }>;
+  }>;
+  patterns: Array<{
+    stockLengthMm: number;
+    sourceIds: number[];
+    trimmedMm: number;
+    cuts: Array<{ pieceMm: number; offsetMm: number; kerfOffsetMm?: number; pieces?: PieceTrace[] }>;
+    remnantMm: number;
+    remnantKept: boolean;
+    repeat: number;
   }>;
-  shortage: Array<{ pieceMm: number; missingCount: number; reason: string }>;
+  shortage: Array<{ pieceMm: number; missingCount: number; reason: string; pieces?: PieceTrace[] }>;
+  splices?: Array<{ spliceId: string; pieceMm: number; segmentsMm: number[]; trace?: PieceTrace }>;
   stats: {
     totalPieces: number;
     totalUsedStocks: number;
     totalWasteMm: number;
+    consumedMm: number;
+    utilizationPct: number;
+    keptRemnantCount: number;
+    keptRemnantMm: number;
+    kerfLossMm: number;
+    allowanceLossMm: number;
+    byStockLength: Array<{
+      stockLengthMm: number;
+      barsUsed: number;
+      usedMm: number;
+      wasteMm: number;
+      keptRemnantMm: number;
+    }>;
+    materialCost: number;
+    laborCost: number;
+    totalCost: number;
   };
+  purchaseSuggestion?: {
+    items: Array<{ lengthMm: number; qty: number }>;
+    totalCost: number;
+    unfulfilled: Array<{ pieceMm: number; missingCount: number; reason: string }>;
+  } | null;
 };
 
+type OrderPriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
+
 type OrderTableRow = {
   id: number;
   inventoryClass: InventoryClass;
@@ -39,6 +96,8 @@ type OrderTableRow = {
   widthMm: number;
   qty: number;
   includeProzorskeDaske: boolean;
+  priority: OrderPriority;
+  dueDate: string | null;
 };
 
 type PersistedOrder = {
@@ -49,10 +108,32 @@ type PersistedOrder = {
   qty: number;
   widthOnly: boolean;
   derivedFromWidth: boolean;
-  status: "PENDING" | "ACCEPTED";
+  priority: OrderPriority;
+  dueDate: string | null;
+  status: OrderStatus;
   createdAt: string;
   acceptedAt: string | null;
   acceptedPlanIds: string[];
+  cancelledAt: string | null;
+  statusHistory: Array<{ from: OrderStatus; to: OrderStatus; trigger: string; at: string }>;
+};
+
+type OrderStatus = "RECEIVED" | "APPROVED" | "CUT" | "ASSEMBLED" | "DELIVERED" | "CANCELLED";
+
+/** The shop-floor step after each status, moved by hand once a plan approved the order. */
+const NEXT_ORDER_STEP: Partial<Record<OrderStatus, { status: OrderStatus; label: string }>> = {
+  APPROVED: { status: "CUT", label: "Isecena" },
+  CUT: { status: "ASSEMBLED", label: "Sklopljena" },
+  ASSEMBLED: { status: "DELIVERED", label: "Isporucena" }
+};
+
+/** Field values of a received order being edited in the orders table. */
+type OrderEdit = {
+  id: string;
+  inventoryClass: InventoryClass;
+  height: string;
+  width: string;
+  qty: string;
 };
 
 type ExecutedPlan = {
@@ -62,8 +143,26 @@ type ExecutedPlan = {
 
 type MainTab = "InventoryOrders" | "OrderPlan";
 type PanelTab = "Inventory" | "Orders";
-type OrdersStatusFilter = "ALL" | "PENDING" | "ACCEPTED";
+type OrdersStatusFilter = "ALL" | PersistedOrder["status"];
 type OrdersClassFilter = "ALL" | InventoryClass;
+type OrdersPriorityFilter = "ALL" | OrderPriority;
+type OrdersSort = "createdAt" | "priority" | "dueDate";
+
+const PRIORITY_RANK: Record<OrderPriority, number> = { URGENT: 0, HIGH: 1, NORMAL: 2, LOW: 3 };
+
+/** Same ordering as `GET /orders?sort=`; orders without a due date go last. */
+function compareOrders(a: PersistedOrder, b: PersistedOrder, sort: OrdersSort): number {
+  const byPriority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  const byDueDate = (a.dueDate ?? "9999-12-31").localeCompare(b.dueDate ?? "9999-12-31");
+  const byCreated = b.createdAt.localeCompare(a.createdAt);
+  if (sort === "priority") {
+    return byPriority || byDueDate || byCreated;
+  }
+  if (sort === "dueDate") {
+    return byDueDate || byPriority || byCreated;
+  }
+  return byCreated;
+}
 
 export default function HomePage() {
   const apiUrl = useMemo(() => process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000", []);
@@ -77,15 +176,21 @@ export default function HomePage() {
   const [orderHeight, setOrderHeight] = useState("");
   const [orderWidth, setOrderWidth] = useState("");
   const [orderQty, setOrderQty] = useState("1");
+  const [orderPriority, setOrderPriority] = useState<OrderPriority>("NORMAL");
+  const [orderDueDate, setOrderDueDate] = useState("");
   const [includeProzorskeDaskeWidths, setIncludeProzorskeDaskeWidths] = useState(false);
   const [orderRows, setOrderRows] = useState<OrderTableRow[]>([]);
 
   const [orders, setOrders] = useState<PersistedOrder[]>([]);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [orderEdit, setOrderEdit] = useState<OrderEdit | null>(null);
   const [executedPlans, setExecutedPlans] = useState<ExecutedPlan[]>([]);
   const [mainTab, setMainTab] = useState<MainTab>("InventoryOrders");
   const [inventoryPanelTab, setInventoryPanelTab] = useState<PanelTab>("Inventory");
   const [ordersStatusFilter, setOrdersStatusFilter] = useState<OrdersStatusFilter>("ALL");
   const [ordersClassFilter, setOrdersClassFilter] = useState<OrdersClassFilter>("ALL");
+  const [ordersPriorityFilter, setOrdersPriorityFilter] = useState<OrdersPriorityFilter>("ALL");
+  const [ordersSort, setOrdersSort] = useState<OrdersSort>("createdAt");
   const [error, setError] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
 
@@ -102,15 +207,18 @@ export default function HomePage() {
   }, [inventory]);
 
   const filteredOrders = useMemo(() => {
-    return orders.filter((item) => {
-      const statusMatch = ordersStatusFilter === "ALL" || item.status === ordersStatusFilter;
-      const classMatch = ordersClassFilter === "ALL" || item.inventoryClass === ordersClassFilter;
-      return statusMatch && classMatch;
-    });
-  }, [orders, ordersStatusFilter, ordersClassFilter]);
+    return orders
+      .filter((item) => {
+        const statusMatch = ordersStatusFilter === "ALL" || item.status === ordersStatusFilter;
+        const classMatch = ordersClassFilter === "ALL" || item.inventoryClass === ordersClassFilter;
+        const priorityMatch = ordersPriorityFilter === "ALL" || item.priority === ordersPriorityFilter;
+        return statusMatch && classMatch && priorityMatch;
+      })
+      .sort((a, b) => compareOrders(a, b, ordersSort));
+  }, [orders, ordersStatusFilter, ordersClassFilter, ordersPriorityFilter, ordersSort]);
 
   const pendingOrdersCount = useMemo(() => {
-    return filteredOrders.filter((item) => item.status === "PENDING").length;
+    return filteredOrders.filter((item) => item.status === "RECEIVED").length;
   }, [filteredOrders]);
 
   const showOrdersHeightColumn = useMemo(() => {
@@ -215,7 +323,9 @@ export default function HomePage() {
         heightMm,
         widthMm,
         qty,
-        includeProzorskeDaske: orderClass === "Komarnici" && includeProzorskeDaskeWidths
+        includeProzorskeDaske: orderClass === "Komarnici" && includeProzorskeDaskeWidths,
+        priority: orderPriority,
+        dueDate: orderDueDate === "" ? null : orderDueDate
       }
     ];
 
@@ -254,7 +364,9 @@ export default function HomePage() {
               width: row.widthMm,
               qty: row.qty,
               widthOnly: false,
-              derivedFromWidth: false
+              derivedFromWidth: false,
+              priority: row.priority,
+              dueDate: row.dueDate
             };
 
             if (row.inventoryClass === "Komarnici" && row.includeProzorskeDaske) {
@@ -266,7 +378,9 @@ export default function HomePage() {
                   width: row.widthMm,
                   qty: row.qty,
                   widthOnly: true,
-                  derivedFromWidth: true
+                  derivedFromWidth: true,
+                  priority: row.priority,
+                  dueDate: row.dueDate
                 }
               ];
             }
@@ -332,55 +446,138 @@ export default function HomePage() {
     }
   }
 
-  async function onAcceptAll() {
+  async function onShowPlan(planId: string) {
     setBusy(true);
     setError(null);
 
     try {
-      const response = await fetch(`${apiUrl}/orders/accept-all`, {
-        method: "POST"
+      const response = await fetch(`${apiUrl}/plans/${planId}`);
+      const data = (await response.json()) as {
+        error?: string;
+        plan?: { planId: string; status: string; inventoryClasses: InventoryClass[]; result: Omit<PlanResponse, "planId"> };
+      };
+      if (!response.ok || !data.plan) {
+        throw new Error(data.error ?? `Plan fetch failed (${response.status})`);
+      }
+
+      const { plan } = data;
+      const label = `Plan ${plan.inventoryClasses.join(" + ")} (${plan.status})`;
+      setExecutedPlans((prev) => [
+        { label, plan: { ...plan.result, planId: plan.planId } },
+        ...prev.filter((entry) => entry.plan.planId !== plan.planId)
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function acceptOrdersTogether(path: string, body?: { orderIds: string[] }) {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${apiUrl}${path}`, {
+        method: "POST",
+        ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {})
       });
 
       const data = (await response.json()) as {
         error?: string;
         items?: PersistedOrder[];
         inventory?: InventoryItem[];
-        results?: Array<{
-          orderId: string;
-          status: "ACCEPTED" | "ALREADY_ACCEPTED" | "FAILED";
-          error?: string;
-          plan?: PlanResponse;
-        }>;
+        planId?: string | null;
+        plans?: Array<PlanResponse & { inventoryClass: InventoryClass }>;
       };
 
       if (!response.ok) {
-        throw new Error(data.error ?? `Accept All failed (${response.status})`);
+        throw new Error(data.error ?? `Accept failed (${response.status})`);
       }
 
       setOrders(data.items ?? []);
       if (data.inventory) {
         setInventory(data.inventory);
       }
+      setSelectedOrderIds([]);
 
-      const acceptedPlans: ExecutedPlan[] = [];
-      for (const item of data.results ?? []) {
-        if (!item.plan) {
-          continue;
-        }
-        acceptedPlans.push({
-          label: `Order ${item.orderId}`,
-          plan: item.plan
-        });
-      }
-
+      const acceptedPlans: ExecutedPlan[] = (data.plans ?? []).map((plan) => ({
+        label: `Zajednicki plan (${plan.inventoryClass})`,
+        plan
+      }));
       if (acceptedPlans.length > 0) {
         setExecutedPlans((prev) => [...acceptedPlans, ...prev]);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setBusy(false);
+    }
+  }
 
-      const failed = (data.results ?? []).filter((item) => item.status === "FAILED");
-      if (failed.length > 0) {
-        setError(`Neke porudzbine nisu prihvacene: ${failed.map((item) => item.orderId).join(", ")}`);
+  function onAcceptAll() {
+    return acceptOrdersTogether("/orders/accept-all");
+  }
+
+  function onAcceptSelected() {
+    return acceptOrdersTogether("/orders/accept-selected", { orderIds: selectedOrderIds });
+  }
+
+  function onStartOrderEdit(order: PersistedOrder) {
+    setOrderEdit({
+      id: order.id,
+      inventoryClass: order.inventoryClass,
+      height: order.heightMm == null ? "" : String(order.heightMm),
+      width: String(order.widthMm),
+      qty: String(order.qty)
+    });
+  }
+
+  async function onSaveOrderEdit() {
+    if (!orderEdit) {
+      return;
+    }
+
+    const needsHeight = orderEdit.inventoryClass === "Komarnici";
+    const heightMm = Number(orderEdit.height);
+    const widthMm = Number(orderEdit.width);
+    const qty = Number(orderEdit.qty);
+
+    if (needsHeight && (!Number.isInteger(heightMm) || heightMm < 1)) {
+      setError("Height mora biti ceo broj > 0.");
+      return;
+    }
+    if (!Number.isInteger(widthMm) || widthMm < 1) {
+      setError("Width mora biti ceo broj > 0.");
+      return;
+    }
+    if (!Number.isInteger(qty) || qty < 1) {
+      setError("Qty mora biti ceo broj > 0.");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${apiUrl}/orders/${orderEdit.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          inventoryClass: orderEdit.inventoryClass,
+          height: needsHeight ? heightMm : null,
+          width: widthMm,
+          qty
+        })
+      });
+
+      const data = (await response.json()) as { error?: string; items?: PersistedOrder[] };
+      if (!response.ok) {
+        throw new Error(data.error ?? `Order update failed (${response.status})`);
       }
+
+      setOrders(data.items ?? []);
+      setOrderEdit(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unexpected error");
     } finally {
@@ -388,6 +585,57 @@ export default function HomePage() {
     }
   }
 
+  async function onCancelOrder(orderId: string) {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${apiUrl}/orders/${orderId}`, { method: "DELETE" });
+
+      const data = (await response.json()) as { error?: string; items?: PersistedOrder[] };
+      if (!response.ok) {
+        throw new Error(data.error ?? `Order cancel failed (${response.status})`);
+      }
+
+      setOrders(data.items ?? []);
+      setSelectedOrderIds((prev) => prev.filter((id) => id !== orderId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onTransitionOrder(orderId: string, status: OrderStatus) {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${apiUrl}/orders/${orderId}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status })
+      });
+
+      const data = (await response.json()) as { error?: string; items?: PersistedOrder[] };
+      if (!response.ok) {
+        throw new Error(data.error ?? `Order transition failed (${response.status})`);
+      }
+
+      setOrders(data.items ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleOrderSelection(orderId: string) {
+    setSelectedOrderIds((prev) =>
+      prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]
+    );
+  }
+
   return (
     <main className="page">
       <header className="hero">
@@ -498,6 +746,10 @@ export default function HomePage() {
                     <tr>
                       <th>Length (mm)</th>
                       <th>Qty</th>
+                      <th>Rezervisano</th>
+                      <th>Dostupno</th>
+                      <th>Ostatak</th>
+                      <th>Oštećenja</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -505,6 +757,10 @@ export default function HomePage() {
                       <tr key={item.id}>
                         <td>{item.lengthMm}</td>
                         <td>{item.qty}</td>
+                        <td>{item.reservedQty}</td>
+                        <td>{item.availableQty}</td>
+                        <td>{item.remnant ? "Da" : "-"}</td>
+                        <td>{formatDefects(item.defects)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -521,6 +777,10 @@ export default function HomePage() {
                     <tr>
                       <th>Length (mm)</th>
                       <th>Qty</th>
+                      <th>Rezervisano</th>
+                      <th>Dostupno</th>
+                      <th>Ostatak</th>
+                      <th>Oštećenja</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -528,6 +788,10 @@ export default function HomePage() {
                       <tr key={item.id}>
                         <td>{item.lengthMm}</td>
                         <td>{item.qty}</td>
+                        <td>{item.reservedQty}</td>
+                        <td>{item.availableQty}</td>
+                        <td>{item.remnant ? "Da" : "-"}</td>
+                        <td>{formatDefects(item.defects)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -541,6 +805,9 @@ export default function HomePage() {
               <button type="button" disabled={busy || pendingOrdersCount === 0} onClick={onAcceptAll}>
                 Accept All
               </button>
+              <button type="button" disabled={busy || selectedOrderIds.length === 0} onClick={onAcceptSelected}>
+                Accept Selected ({selectedOrderIds.length})
+              </button>
             </div>
             <div className="orders-filters">
               <label className="short-field">
@@ -551,8 +818,12 @@ export default function HomePage() {
                   onChange={(event) => setOrdersStatusFilter(event.target.value as OrdersStatusFilter)}
                 >
                   <option value="ALL">Sve</option>
-                  <option value="PENDING">Pending</option>
-                  <option value="ACCEPTED">Accepted</option>
+                  <option value="RECEIVED">Received</option>
+                  <option value="APPROVED">Approved</option>
+                  <option value="CUT">Cut</option>
+                  <option value="ASSEMBLED">Assembled</option>
+                  <option value="DELIVERED">Delivered</option>
+                  <option value="CANCELLED">Cancelled</option>
                 </select>
               </label>
               <label className="short-field">
@@ -567,6 +838,32 @@ export default function HomePage() {
                   <option value="Prozorske daske">Prozorske daske</option>
                 </select>
               </label>
+              <label className="short-field">
+                Prioritet
+                <select
+                  className="short-input"
+                  value={ordersPriorityFilter}
+                  onChange={(event) => setOrdersPriorityFilter(event.target.value as OrdersPriorityFilter)}
+                >
+                  <option value="ALL">Sve</option>
+                  <option value="URGENT">Hitno</option>
+                  <option value="HIGH">Visok</option>
+                  <option value="NORMAL">Normalan</option>
+                  <option value="LOW">Nizak</option>
+                </select>
+              </label>
+              <label className="short-field">
+                Sortiraj
+                <select
+                  className="short-input"
+                  value={ordersSort}
+                  onChange={(event) => setOrdersSort(event.target.value as OrdersSort)}
+                >
+                  <option value="createdAt">Najnovije</option>
+                  <option value="priority">Prioritet</option>
+                  <option value="dueDate">Rok</option>
+                </select>
+              </label>
             </div>
             {filteredOrders.length === 0 ? (
               <p className="inventory-empty">Nema kreiranih porudzbina.</p>
@@ -575,31 +872,126 @@ export default function HomePage() {
                 <table className="inventory-table">
                   <thead>
                     <tr>
+                      <th>Izbor</th>
                       <th>Klasa</th>
                       {showOrdersHeightColumn && <th>Height</th>}
                       <th>Width</th>
                       <th>Qty</th>
+                      <th>Prioritet</th>
+                      <th>Rok</th>
                       <th>Akcija</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {filteredOrders.map((order) => (
-                      <tr key={order.id}>
-                        <td>{order.inventoryClass}</td>
-                        {showOrdersHeightColumn && <td>{order.heightMm ?? "-"}</td>}
-                        <td>{order.widthMm}</td>
-                        <td>{order.qty}</td>
-                        <td>
-                          {order.status === "PENDING" ? (
-                            <button type="button" disabled={busy} onClick={() => onAcceptOrder(order.id)}>
-                              Accept
-                            </button>
-                          ) : (
-                            <span>Accepted</span>
+                    {filteredOrders.map((order) =>
+                      orderEdit?.id === order.id ? (
+                        <tr key={order.id}>
+                          <td />
+                          <td>
+                            <select
+                              className="short-input"
+                              value={orderEdit.inventoryClass}
+                              onChange={(event) =>
+                                setOrderEdit({ ...orderEdit, inventoryClass: event.target.value as InventoryClass })
+                              }
+                            >
+                              <option value="Komarnici">Komarnici</option>
+                              <option value="Prozorske daske">Prozorske daske</option>
+                            </select>
+                          </td>
+                          {showOrdersHeightColumn && (
+                            <td>
+                              {orderEdit.inventoryClass === "Komarnici" ? (
+                                <input
+                                  className="short-input"
+                                  type="number"
+                                  min={1}
+                                  value={orderEdit.height}
+                                  onChange={(event) => setOrderEdit({ ...orderEdit, height: event.target.value })}
+                                />
+                              ) : (
+                                "-"
+                              )}
+                            </td>
                           )}
-                        </td>
-                      </tr>
-                    ))}
+                          <td>
+                            <input
+                              className="short-input"
+                              type="number"
+                              min={1}
+                              value={orderEdit.width}
+                              onChange={(event) => setOrderEdit({ ...orderEdit, width: event.target.value })}
+                            />
+                          </td>
+                          <td>
+                            <input
+                              className="short-input"
+                              type="number"
+                              min={1}
+                              value={orderEdit.qty}
+                              onChange={(event) => setOrderEdit({ ...orderEdit, qty: event.target.value })}
+                            />
+                          </td>
+                          <td>{order.priority}</td>
+                          <td>{order.dueDate ?? "-"}</td>
+                          <td>
+                            <button type="button" disabled={busy} onClick={onSaveOrderEdit}>
+                              Sacuvaj
+                            </button>
+                            <button type="button" disabled={busy} onClick={() => setOrderEdit(null)}>
+                              Odustani
+                            </button>
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={order.id}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              disabled={busy || order.status !== "RECEIVED"}
+                              checked={selectedOrderIds.includes(order.id)}
+                              onChange={() => toggleOrderSelection(order.id)}
+                            />
+                          </td>
+                          <td>{order.inventoryClass}</td>
+                          {showOrdersHeightColumn && <td>{order.heightMm ?? "-"}</td>}
+                          <td>{order.widthMm}</td>
+                          <td>{order.qty}</td>
+                          <td>{order.priority}</td>
+                          <td>{order.dueDate ?? "-"}</td>
+                          <td>
+                            {order.status === "RECEIVED" ? (
+                              <>
+                                <button type="button" disabled={busy} onClick={() => onAcceptOrder(order.id)}>
+                                  Accept
+                                </button>
+                                <button type="button" disabled={busy} onClick={() => onStartOrderEdit(order)}>
+                                  Izmeni
+                                </button>
+                                <button type="button" disabled={busy} onClick={() => onCancelOrder(order.id)}>
+                                  Otkazi
+                                </button>
+                              </>
+                            ) : order.status === "CANCELLED" ? (
+                              "Otkazana"
+                            ) : (
+                              <>
+                                {order.acceptedPlanIds.map((planId) => (
+                                  <button key={planId} type="button" disabled={busy} onClick={() => onShowPlan(planId)}>
+                                    Plan
+                                  </button>
+                                ))}
+                                <OrderStepButton
+                                  status={order.status}
+                                  disabled={busy}
+                                  onMove={(status) => onTransitionOrder(order.id, status)}
+                                />
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    )}
                   </tbody>
                 </table>
               </div>
@@ -668,6 +1060,28 @@ export default function HomePage() {
               onChange={(event) => setOrderQty(event.target.value)}
             />
           </label>
+          <label className="short-field">
+            Prioritet
+            <select
+              className="short-input"
+              value={orderPriority}
+              onChange={(event) => setOrderPriority(event.target.value as OrderPriority)}
+            >
+              <option value="URGENT">Hitno</option>
+              <option value="HIGH">Visok</option>
+              <option value="NORMAL">Normalan</option>
+              <option value="LOW">Nizak</option>
+            </select>
+          </label>
+          <label className="short-field">
+            Rok
+            <input
+              className="short-input"
+              type="date"
+              value={orderDueDate}
+              onChange={(event) => setOrderDueDate(event.target.value)}
+            />
+          </label>
 
           {orderClass === "Komarnici" && (
             <label className="checkbox-inline">
@@ -698,6 +1112,8 @@ export default function HomePage() {
                     {showOrderRowsHeightColumn && <th>Height</th>}
                     <th>Width</th>
                     <th>Qty</th>
+                    <th>Prioritet</th>
+                    <th>Rok</th>
                     <th className="pdaske-col">P. Daske</th>
                     <th>Akcija</th>
                   </tr>
@@ -709,6 +1125,8 @@ export default function HomePage() {
                       {showOrderRowsHeightColumn && <td>{row.heightMm ?? "-"}</td>}
                       <td>{row.widthMm}</td>
                       <td>{row.qty}</td>
+                      <td>{row.priority}</td>
+                      <td>{row.dueDate ?? "-"}</td>
                       <td className="pdaske-col">
                         {row.inventoryClass === "Komarnici" ? (
                           <input
@@ -746,10 +1164,11 @@ export default function HomePage() {
         <h2>Plan Result</h2>
         {executedPlans.length > 0 ? (
           executedPlans.map((entry) => (
-            <div key={entry.plan.planId} className="result-item">
+            <div key={`${entry.plan.planId}:${entry.label}`} className="result-item">
               <p className="status">
                 {entry.label}: <strong>{entry.plan.status}</strong> | Plan ID: <code>{entry.plan.planId}</code>
               </p>
+              <PlanStatsTables stats={entry.plan.stats} />
               <pre>{JSON.stringify(entry.plan, null, 2)}</pre>
             </div>
           ))
@@ -762,3 +1181,91 @@ export default function HomePage() {
     </main>
   );
 }
+
+function OrderStepButton({
+  status,
+  disabled,
+  onMove
+}: {
+  status: OrderStatus;
+  disabled: boolean;
+  onMove: (status: OrderStatus) => void;
+}) {
+  const next = NEXT_ORDER_STEP[status];
+  if (!next) {
+    return <span> Isporucena</span>;
+  }
+  return (
+    <button type="button" disabled={disabled} onClick={() => onMove(next.status)}>
+      {next.label}
+    </button>
+  );
+}
+
+function PlanStatsTables({ stats }: { stats: PlanResponse["stats"] }) {
+  return (
+    <>
+      <div className="inventory-table-wrap">
+        <p className="inventory-table-title">Statistika</p>
+        <table className="inventory-table">
+          <tbody>
+            <tr>
+              <th>Iskoriscenost</th>
+              <td>{stats.utilizationPct}%</td>
+              <th>Potroseno</th>
+              <td>{stats.consumedMm} mm</td>
+            </tr>
+            <tr>
+              <th>Otpad</th>
+              <td>{stats.totalWasteMm} mm</td>
+              <th>Zadrzani ostaci</th>
+              <td>
+                {stats.keptRemnantCount} kom / {stats.keptRemnantMm} mm
+              </td>
+            </tr>
+            <tr>
+              <th>Gubitak na rezu</th>
+              <td>{stats.kerfLossMm} mm</td>
+              <th>Gubitak na dodatku</th>
+              <td>{stats.allowanceLossMm} mm</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {stats.byStockLength.length > 0 && (
+        <div className="inventory-table-wrap">
+          <p className="inventory-table-title">Po duzini sipke</p>
+          <table className="inventory-table">
+            <thead>
+              <tr>
+                <th>Duzina</th>
+                <th>Sipki</th>
+                <th>Iskorisceno</th>
+                <th>Otpad</th>
+                <th>Ostaci</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.byStockLength.map((row) => (
+                <tr key={row.stockLengthMm}>
+                  <td>{row.stockLengthMm} mm</td>
+                  <td>{row.barsUsed}</td>
+                  <td>{row.usedMm} mm</td>
+                  <td>{row.wasteMm} mm</td>
+                  <td>{row.keptRemnantMm} mm</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
+
+function formatDefects(defects: InventoryItem["defects"]): string {
+  if (defects.length === 0) {
+    return "-";
+  }
+  return defects.map((defect) => `${defect.offsetMm}–${defect.offsetMm + defect.lengthMm}`).join(", ");
+}
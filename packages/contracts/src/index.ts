@@ -4,7 +4,14 @@ export const DEFAULT_PLAN_PARAMS = {
   kerfMm: 3,
   allowanceMm: 1,
   minRemnantMm: 100,
-  toleranceMm: 1
+  toleranceMm: 1,
+  trimStartMm: 0,
+  trimEndMm: 0
+} as const;
+
+export const DEFAULT_PLAN_COSTS = {
+  pricePerMeter: 0,
+  costPerCut: 0
 } as const;
 
 export const unitsSchema = z.enum(["mm", "cm", "m"]);
@@ -14,7 +21,9 @@ export const planParamsSchema = z.object({
   kerfMm: z.number().int().min(0),
   allowanceMm: z.number().int().min(0),
   minRemnantMm: z.number().int().min(0),
-  toleranceMm: z.number().int().min(0)
+  toleranceMm: z.number().int().min(0),
+  trimStartMm: z.number().int().min(0),
+  trimEndMm: z.number().int().min(0)
 });
 export type PlanParams = z.infer<typeof planParamsSchema>;
 
@@ -22,49 +31,306 @@ export const planParamsPatchSchema = z.object({
   kerfMm: z.number().int().min(0).optional(),
   allowanceMm: z.number().int().min(0).optional(),
   minRemnantMm: z.number().int().min(0).optional(),
-  toleranceMm: z.number().int().min(0).optional()
+  toleranceMm: z.number().int().min(0).optional(),
+  trimStartMm: z.number().int().min(0).optional(),
+  trimEndMm: z.number().int().min(0).optional()
 });
 export type PlanParamsPatch = z.infer<typeof planParamsPatchSchema>;
 
+export const planCostsSchema = z.object({
+  pricePerMeter: z.number().min(0),
+  costPerCut: z.number().min(0)
+});
+export type PlanCosts = z.infer<typeof planCostsSchema>;
+
+export const planCostsPatchSchema = z.object({
+  pricePerMeter: z.number().min(0).optional(),
+  costPerCut: z.number().min(0).optional()
+});
+export type PlanCostsPatch = z.infer<typeof planCostsPatchSchema>;
+
 export const inventoryClassSchema = z.enum(["Komarnici", "Prozorske daske"]);
 export type InventoryClass = z.infer<typeof inventoryClassSchema>;
 
+export const defectZoneSchema = z.object({
+  offsetMm: z.number().int().min(0),
+  lengthMm: z.number().int().positive()
+});
+export type DefectZone = z.infer<typeof defectZoneSchema>;
+
 export const inventoryItemSchema = z.object({
   id: z.number().int().positive(),
   inventoryClass: inventoryClassSchema,
   lengthMm: z.number().int().positive(),
-  qty: z.number().int().min(0)
+  qty: z.number().int().min(0),
+  remnant: z.boolean(),
+  defects: z.array(defectZoneSchema)
 });
 export type InventoryItem = z.infer<typeof inventoryItemSchema>;
 
-export const inventoryAddRequestSchema = z.object({
+/** A listed stock row: `qty` is on hand, `reservedQty` of it is held by plans not yet committed. */
+export const inventoryStockSchema = inventoryItemSchema.extend({
+  reservedQty: z.number().int().min(0),
+  availableQty: z.number().int().min(0)
+});
+export type InventoryStock = z.infer<typeof inventoryStockSchema>;
+
+/** Stock that new plans may use: what is on hand minus what other plans reserve. */
+export function availableStock(items: InventoryStock[]): InventoryItem[] {
+  return items
+    .filter((item) => item.availableQty > 0)
+    .map((item) => ({
+      id: item.id,
+      inventoryClass: item.inventoryClass,
+      lengthMm: item.lengthMm,
+      qty: item.availableQty,
+      remnant: item.remnant,
+      defects: item.defects
+    }));
+}
+
+export const recipePieceSchema = z.object({
+  role: z.string().trim().min(1).max(40),
+  /** Millimetres as arithmetic over `height` and `width`, e.g. `width - 40`. */
+  lengthFormula: z.string().trim().min(1).max(200),
+  count: z.number().int().positive()
+});
+export type RecipePiece = z.infer<typeof recipePieceSchema>;
+
+export const productRecipeSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  pieces: z.array(recipePieceSchema).min(1)
+});
+export type ProductRecipe = z.infer<typeof productRecipeSchema>;
+
+/** Opt-in joining of pieces longer than any clean stock from several segments. */
+export const spliceOptionsSchema = z.object({
+  jointAllowanceMm: z.number().int().min(0),
+  minSegmentMm: z.number().int().min(1),
+  maxJoints: z.number().int().min(1).max(10)
+});
+export type SpliceOptions = z.infer<typeof spliceOptionsSchema>;
+
+const productRecipesSchema = z
+  .array(productRecipeSchema)
+  .refine((recipes) => new Set(recipes.map((recipe) => recipe.name)).size === recipes.length, {
+    message: "Recipe names must be unique"
+  });
+
+export const inventoryClassSettingsSchema = z.object({
   inventoryClass: inventoryClassSchema,
-  lengthMm: z.number().int().positive(),
-  qty: z.number().int().positive()
+  params: planParamsPatchSchema,
+  costs: planCostsPatchSchema,
+  /** Factory lengths that can be bought for this class. */
+  purchasableLengthsMm: z.array(z.number().int().positive()),
+  /** Products order lines of this class can name; lines without one cut a plain frame. */
+  recipes: z.array(productRecipeSchema),
+  /** Null keeps over-long pieces failing with `NO_STOCK_LONG_ENOUGH`. */
+  splicing: spliceOptionsSchema.nullable()
+});
+export type InventoryClassSettings = z.infer<typeof inventoryClassSettingsSchema>;
+
+export const inventoryClassSettingsUpdateRequestSchema = z.object({
+  inventoryClass: inventoryClassSchema,
+  params: planParamsPatchSchema.default({}),
+  costs: planCostsPatchSchema.default({}),
+  /** Replaces the stored catalog when present. */
+  purchasableLengthsMm: z.array(z.number().int().positive()).optional(),
+  /** Replaces the stored recipes when present. */
+  recipes: productRecipesSchema.optional(),
+  /** Replaces the stored options when present; null turns splicing off. */
+  splicing: spliceOptionsSchema.nullable().optional()
 });
+export type InventoryClassSettingsUpdateRequest = z.infer<
+  typeof inventoryClassSettingsUpdateRequestSchema
+>;
+
+export const inventoryAddRequestSchema = z
+  .object({
+    inventoryClass: inventoryClassSchema,
+    lengthMm: z.number().int().positive(),
+    qty: z.number().int().positive(),
+    remnant: z.boolean().default(false),
+    defects: z.array(defectZoneSchema).default([])
+  })
+  .refine(
+    (value) => value.defects.every((defect) => defect.offsetMm + defect.lengthMm <= value.lengthMm),
+    { message: "Defects must lie within the bar length", path: ["defects"] }
+  );
 export type InventoryAddRequest = z.infer<typeof inventoryAddRequestSchema>;
 
+/** Why stock was changed by hand; required on every removal, count and write-off. */
+export const inventoryAdjustmentReasonSchema = z.enum([
+  "STOCKTAKE",
+  "CORRECTION",
+  "USED_OUTSIDE_PLAN",
+  "RETURNED_TO_SUPPLIER",
+  "DAMAGED",
+  "LOST",
+  "SCRAPPED"
+]);
+export type InventoryAdjustmentReason = z.infer<typeof inventoryAdjustmentReasonSchema>;
+
+export const inventoryWriteOffReasonSchema = inventoryAdjustmentReasonSchema.extract(["DAMAGED", "LOST", "SCRAPPED"]);
+export type InventoryWriteOffReason = z.infer<typeof inventoryWriteOffReasonSchema>;
+
+const inventoryAdjustmentBaseSchema = z.object({
+  inventoryId: z.number().int().positive(),
+  note: z.string().trim().min(1).max(500).optional()
+});
+
+export const inventoryRemoveRequestSchema = inventoryAdjustmentBaseSchema.extend({
+  qty: z.number().int().positive(),
+  reason: inventoryAdjustmentReasonSchema
+});
+export type InventoryRemoveRequest = z.infer<typeof inventoryRemoveRequestSchema>;
+
+/** The counted quantity replaces the stored one. */
+export const inventorySetRequestSchema = inventoryAdjustmentBaseSchema.extend({
+  qty: z.number().int().nonnegative(),
+  reason: inventoryAdjustmentReasonSchema
+});
+export type InventorySetRequest = z.infer<typeof inventorySetRequestSchema>;
+
+export const inventoryWriteOffRequestSchema = inventoryAdjustmentBaseSchema.extend({
+  qty: z.number().int().positive(),
+  reason: inventoryWriteOffReasonSchema
+});
+export type InventoryWriteOffRequest = z.infer<typeof inventoryWriteOffRequestSchema>;
+
+export const inventoryMovementTypeSchema = z.enum([
+  "ADDITION",
+  "PLAN_CONSUMPTION",
+  "REMNANT_CREATED",
+  "ADJUSTMENT",
+  "REVERT"
+]);
+export type InventoryMovementType = z.infer<typeof inventoryMovementTypeSchema>;
+
+export const inventoryMovementListQuerySchema = z.object({
+  inventoryId: z.coerce.number().int().positive().optional(),
+  inventoryClass: inventoryClassSchema.optional(),
+  lengthMm: z.coerce.number().int().positive().optional(),
+  type: inventoryMovementTypeSchema.optional(),
+  planId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  reason: inventoryAdjustmentReasonSchema.optional(),
+  /** Movements at or after this instant. */
+  from: z.coerce.date().optional(),
+  /** Movements before this instant. */
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200)
+});
+export type InventoryMovementListQuery = z.infer<typeof inventoryMovementListQuerySchema>;
+
+export const inventorySnapshotQuerySchema = z.object({
+  asOf: z.coerce.date()
+});
+export type InventorySnapshotQuery = z.infer<typeof inventorySnapshotQuerySchema>;
+
 export const orderLineInputSchema = z.object({
   height: z.number().positive(),
   width: z.number().positive(),
-  qty: z.number().int().positive()
+  qty: z.number().int().positive(),
+  /** Echoed on every cut as `orderLineRef`; the line's index is used when omitted. */
+  ref: z.string().trim().min(1).max(100).optional(),
+  /** Name of a recipe stored for the class; a plain frame is cut when omitted. */
+  recipe: z.string().trim().min(1).max(60).optional()
 });
 export type OrderLineInput = z.infer<typeof orderLineInputSchema>;
 
+export const heuristicStrategySchema = z.enum([
+  "FFD",
+  "BFD",
+  "WFD",
+  "SMALLEST_BAR_FIRST",
+  "REMNANTS_FIRST"
+]);
+export type HeuristicStrategy = z.infer<typeof heuristicStrategySchema>;
+
+export const planAlgorithmSchema = z.enum([
+  ...heuristicStrategySchema.options,
+  "OPTIMAL",
+  "LOCAL_SEARCH"
+]);
+export type PlanAlgorithm = z.infer<typeof planAlgorithmSchema>;
+
+export const planObjectiveSchema = z.enum(["WASTE", "COST"]);
+export type PlanObjective = z.infer<typeof planObjectiveSchema>;
+
+/** The longest search budget a plan request can ask for. */
+export const MAX_SEARCH_TIME_BUDGET_MS = 10_000;
+
 export const orderPlanRequestSchema = z.object({
   units: unitsSchema.default("mm"),
   params: planParamsPatchSchema.default({}),
+  algorithm: planAlgorithmSchema.default("BFD"),
+  objective: planObjectiveSchema.default("WASTE"),
+  /**
+   * Seeds `LOCAL_SEARCH`; a random seed is chosen and reported when omitted.
+   * The search stops on `maxIterations`, so the reported seed gives the same plan again.
+   */
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  /**
+   * Search budget for `OPTIMAL`. For `LOCAL_SEARCH` only a safety stop; a plan
+   * it cut short (`stoppedBy: "TIME_BUDGET"`) is replayed with `maxIterations`.
+   */
+  timeBudgetMs: z.number().int().positive().max(MAX_SEARCH_TIME_BUDGET_MS).optional(),
+  /**
+   * Caps `LOCAL_SEARCH` moves, 20 000 by default. A seed with the `iterations`
+   * a plan reports reproduces that plan.
+   */
+  maxIterations: z.number().int().positive().max(1_000_000).optional(),
   orderLines: z.array(orderLineInputSchema).min(1)
 });
 export type OrderPlanRequest = z.infer<typeof orderPlanRequestSchema>;
 
+export const combinedOrderLineInputSchema = orderLineInputSchema.extend({
+  inventoryClass: inventoryClassSchema,
+  /** Cuts two widths instead of a frame when the line names no recipe. */
+  widthOnly: z.boolean().default(false)
+});
+export type CombinedOrderLineInput = z.infer<typeof combinedOrderLineInputSchema>;
+
+/** One order across classes: each class is planned against its own stock and settings. */
+export const combinedPlanRequestSchema = orderPlanRequestSchema.extend({
+  orderLines: z.array(combinedOrderLineInputSchema).min(1)
+});
+export type CombinedPlanRequest = z.infer<typeof combinedPlanRequestSchema>;
+
+export const purchaseSuggestionRequestSchema = z.object({
+  inventoryClass: inventoryClassSchema,
+  units: unitsSchema.default("mm"),
+  params: planParamsPatchSchema.default({}),
+  objective: planObjectiveSchema.default("COST"),
+  pieces: z.array(z.number().positive()).min(1)
+});
+export type PurchaseSuggestionRequest = z.infer<typeof purchaseSuggestionRequestSchema>;
+
+export const orderAcceptSelectedRequestSchema = z.object({
+  orderIds: z.array(z.string().uuid()).min(1)
+});
+export type OrderAcceptSelectedRequest = z.infer<typeof orderAcceptSelectedRequestSchema>;
+
+export const orderIdParamsSchema = z.object({
+  orderId: z.string().uuid()
+});
+export type OrderIdParams = z.infer<typeof orderIdParamsSchema>;
+
 export const orderCommitRequestSchema = z.object({
   planId: z.string().uuid()
 });
 export type OrderCommitRequest = z.infer<typeof orderCommitRequestSchema>;
 
+/** Batch acceptance hands scarce stock to higher priorities first, then to earlier due dates. */
+export const orderPrioritySchema = z.enum(["LOW", "NORMAL", "HIGH", "URGENT"]);
+export type OrderPriority = z.infer<typeof orderPrioritySchema>;
+
 export const orderQueueRowSchema = z.object({
   inventoryClass: inventoryClassSchema,
+  priority: orderPrioritySchema.default("NORMAL"),
+  /** Calendar date, `YYYY-MM-DD`. */
+  dueDate: z.string().date().nullable().optional(),
   height: z.number().positive().nullable().optional(),
   width: z.number().positive(),
   qty: z.number().int().positive(),
@@ -79,9 +345,97 @@ export const orderQueueCreateRequestSchema = z.object({
 });
 export type OrderQueueCreateRequest = z.infer<typeof orderQueueCreateRequestSchema>;
 
-export const orderQueueStatusSchema = z.enum(["PENDING", "ACCEPTED"]);
+/** Changes a received order; omitted fields keep their value, and null clears the height or due date. */
+export const orderUpdateRequestSchema = z
+  .object({
+    units: unitsSchema.default("mm"),
+    inventoryClass: inventoryClassSchema.optional(),
+    height: z.number().positive().nullable().optional(),
+    width: z.number().positive().optional(),
+    qty: z.number().int().positive().optional(),
+    widthOnly: z.boolean().optional(),
+    priority: orderPrioritySchema.optional(),
+    dueDate: z.string().date().nullable().optional()
+  })
+  .refine((value) => Object.entries(value).some(([key, entry]) => key !== "units" && entry !== undefined), {
+    message: "Nothing to update"
+  });
+export type OrderUpdateRequest = z.infer<typeof orderUpdateRequestSchema>;
+
+export const orderQueueStatusSchema = z.enum(["RECEIVED", "APPROVED", "CUT", "ASSEMBLED", "DELIVERED", "CANCELLED"]);
 export type OrderQueueStatus = z.infer<typeof orderQueueStatusSchema>;
 
+/** Who moves an order: someone in the shop, or its plan being committed or reverted. */
+export const orderTransitionTriggerSchema = z.enum(["MANUAL", "PLAN_COMMIT", "PLAN_REVERT"]);
+export type OrderTransitionTrigger = z.infer<typeof orderTransitionTriggerSchema>;
+
+export type OrderTransition = {
+  from: OrderQueueStatus;
+  to: OrderQueueStatus;
+  trigger: OrderTransitionTrigger;
+};
+
+/**
+ * The shop workflow, one entry per allowed move; anything not listed is
+ * rejected. Accepting an order commits its plan and approves it, reverting
+ * that plan sends it back, and the rest is reported by hand.
+ */
+export const ORDER_TRANSITIONS: readonly OrderTransition[] = [
+  { from: "RECEIVED", to: "APPROVED", trigger: "PLAN_COMMIT" },
+  { from: "RECEIVED", to: "CANCELLED", trigger: "MANUAL" },
+  { from: "APPROVED", to: "RECEIVED", trigger: "PLAN_REVERT" },
+  { from: "APPROVED", to: "CUT", trigger: "MANUAL" },
+  { from: "CUT", to: "ASSEMBLED", trigger: "MANUAL" },
+  { from: "ASSEMBLED", to: "DELIVERED", trigger: "MANUAL" }
+];
+
+export function canTransitionOrder(
+  from: OrderQueueStatus,
+  to: OrderQueueStatus,
+  trigger: OrderTransitionTrigger
+): boolean {
+  return ORDER_TRANSITIONS.some(
+    (transition) => transition.from === from && transition.to === to && transition.trigger === trigger
+  );
+}
+
+export const orderTransitionRequestSchema = z.object({
+  status: orderQueueStatusSchema
+});
+export type OrderTransitionRequest = z.infer<typeof orderTransitionRequestSchema>;
+
+export const orderListSortSchema = z.enum(["createdAt", "priority", "dueDate"]);
+export type OrderListSort = z.infer<typeof orderListSortSchema>;
+
+export const orderListQuerySchema = z.object({
+  sort: orderListSortSchema.default("createdAt"),
+  status: orderQueueStatusSchema.optional(),
+  priority: orderPrioritySchema.optional(),
+  inventoryClass: inventoryClassSchema.optional(),
+  /** Keeps orders due on or before this date; orders without a due date are left out. */
+  dueBefore: z.string().date().optional()
+});
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+export const planStateSchema = z.enum(["PLANNED", "COMMITTED", "EXPIRED", "REVERTED"]);
+export type PlanState = z.infer<typeof planStateSchema>;
+
+export const planListQuerySchema = z.object({
+  status: planStateSchema.optional(),
+  inventoryClass: inventoryClassSchema.optional(),
+  /** Plans created at or after this instant. */
+  from: z.coerce.date().optional(),
+  /** Plans created before this instant. */
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+export type PlanListQuery = z.infer<typeof planListQuerySchema>;
+
+export const planIdParamsSchema = z.object({
+  planId: z.string().uuid()
+});
+export type PlanIdParams = z.infer<typeof planIdParamsSchema>;
+
 export const planStatusSchema = z.enum(["SUCCESS", "PARTIAL", "FAIL"]);
 export type PlanStatus = z.infer<typeof planStatusSchema>;
 
@@ -92,11 +446,21 @@ export const shortageReasonSchema = z.enum([
 ]);
 export type ShortageReason = z.infer<typeof shortageReasonSchema>;
 
-export function mergePlanParams(patch?: PlanParamsPatch): PlanParams {
+/** Request values win over the inventory class settings, which win over the defaults. */
+export function mergePlanParams(patch?: PlanParamsPatch, classParams?: PlanParamsPatch): PlanParams {
+  return {
+    kerfMm: patch?.kerfMm ?? classParams?.kerfMm ?? DEFAULT_PLAN_PARAMS.kerfMm,
+    allowanceMm: patch?.allowanceMm ?? classParams?.allowanceMm ?? DEFAULT_PLAN_PARAMS.allowanceMm,
+    minRemnantMm: patch?.minRemnantMm ?? classParams?.minRemnantMm ?? DEFAULT_PLAN_PARAMS.minRemnantMm,
+    toleranceMm: patch?.toleranceMm ?? classParams?.toleranceMm ?? DEFAULT_PLAN_PARAMS.toleranceMm,
+    trimStartMm: patch?.trimStartMm ?? classParams?.trimStartMm ?? DEFAULT_PLAN_PARAMS.trimStartMm,
+    trimEndMm: patch?.trimEndMm ?? classParams?.trimEndMm ?? DEFAULT_PLAN_PARAMS.trimEndMm
+  };
+}
+
+export function mergePlanCosts(classCosts?: PlanCostsPatch): PlanCosts {
   return {
-    kerfMm: patch?.kerfMm ?? DEFAULT_PLAN_PARAMS.kerfMm,
-    allowanceMm: patch?.allowanceMm ?? DEFAULT_PLAN_PARAMS.allowanceMm,
-    minRemnantMm: patch?.minRemnantMm ?? DEFAULT_PLAN_PARAMS.minRemnantMm,
-    toleranceMm: patch?.toleranceMm ?? DEFAULT_PLAN_PARAMS.toleranceMm
+    pricePerMeter: classCosts?.pricePerMeter ?? DEFAULT_PLAN_COSTS.pricePerMeter,
+    costPerCut: classCosts?.costPerCut ?? DEFAULT_PLAN_COSTS.costPerCut
   };
 }
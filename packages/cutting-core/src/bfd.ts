@@ -0,0 +1,38 @@
+import { buildCutPlanHeuristicForPieces } from "./heuristics";
+import { expandOrderToPieces } from "./shared";
+import type { BuildCutPlanForPiecesInput, BuildCutPlanInput, CutPlanResult } from "./types";
+
+export function buildCutPlanBFD({
+  inventoryItems,
+  orderLines,
+  params,
+  costs,
+  splicing
+}: BuildCutPlanInput): CutPlanResult {
+  return buildCutPlanBFDForPieces({
+    inventoryItems,
+    ...expandOrderToPieces(orderLines),
+    params,
+    costs,
+    splicing
+  });
+}
+
+export function buildCutPlanBFDForPieces({
+  inventoryItems,
+  piecesMm,
+  pieceTraces,
+  params,
+  costs,
+  splicing
+}: BuildCutPlanForPiecesInput): CutPlanResult {
+  return buildCutPlanHeuristicForPieces({
+    strategy: "BFD",
+    inventoryItems,
+    piecesMm,
+    pieceTraces,
+    params,
+    costs,
+    splicing
+  });
+}
@@ -0,0 +1,92 @@
+import { roundMoney } from "./shared";
+import type { CutListItem, CutPlanResult, CutPlanStats, PlanStatus, StockLengthStats } from "./types";
+
+/**
+ * Joins plans cut from separate stock, such as one plan per material class,
+ * into a single result. Allocations, patterns, shortage and splices are
+ * concatenated; cut list, stats and status are recomputed over all of them.
+ * Splice ids stay unique only within the plan they came from.
+ */
+export function combineCutPlans(results: CutPlanResult[]): CutPlanResult {
+  const allocations = results.flatMap((result) => result.allocations);
+  const shortage = results.flatMap((result) => result.shortage);
+  const splices = results.flatMap((result) => result.splices ?? []);
+
+  const combined: CutPlanResult = {
+    status: combinedStatus(results),
+    cutList: combineCutLists(results.map((result) => result.cutList)),
+    allocations,
+    patterns: results.flatMap((result) => result.patterns),
+    shortage,
+    stats: combinePlanStats(results)
+  };
+  return splices.length > 0 ? { ...combined, splices } : combined;
+}
+
+/** Stats of `results` taken together; utilisation is recomputed rather than averaged. */
+export function combinePlanStats(results: CutPlanResult[]): CutPlanStats {
+  const sum = (pick: (stats: CutPlanStats) => number) =>
+    results.reduce((total, result) => total + pick(result.stats), 0);
+
+  const placedMm = results.reduce(
+    (total, result) =>
+      total +
+      result.allocations.reduce(
+        (allocationTotal, allocation) =>
+          allocationTotal + allocation.cuts.reduce((cutTotal, cut) => cutTotal + cut.pieceMm, 0),
+        0
+      ),
+    0
+  );
+  const consumedMm = sum((stats) => stats.consumedMm);
+
+  const byLength = new Map<number, StockLengthStats>();
+  for (const entry of results.flatMap((result) => result.stats.byStockLength)) {
+    const existing = byLength.get(entry.stockLengthMm);
+    byLength.set(
+      entry.stockLengthMm,
+      existing
+        ? {
+            stockLengthMm: entry.stockLengthMm,
+            barsUsed: existing.barsUsed + entry.barsUsed,
+            usedMm: existing.usedMm + entry.usedMm,
+            wasteMm: existing.wasteMm + entry.wasteMm,
+            keptRemnantMm: existing.keptRemnantMm + entry.keptRemnantMm
+          }
+        : { ...entry }
+    );
+  }
+
+  return {
+    totalPieces: sum((stats) => stats.totalPieces),
+    totalUsedStocks: sum((stats) => stats.totalUsedStocks),
+    totalWasteMm: sum((stats) => stats.totalWasteMm),
+    consumedMm,
+    utilizationPct: consumedMm > 0 ? Math.round((placedMm / consumedMm) * 10_000) / 100 : 0,
+    keptRemnantCount: sum((stats) => stats.keptRemnantCount),
+    keptRemnantMm: sum((stats) => stats.keptRemnantMm),
+    kerfLossMm: sum((stats) => stats.kerfLossMm),
+    allowanceLossMm: sum((stats) => stats.allowanceLossMm),
+    byStockLength: [...byLength.values()].sort((a, b) => a.stockLengthMm - b.stockLengthMm),
+    materialCost: roundMoney(sum((stats) => stats.materialCost)),
+    laborCost: roundMoney(sum((stats) => stats.laborCost)),
+    totalCost: roundMoney(sum((stats) => stats.totalCost))
+  };
+}
+
+function combinedStatus(results: CutPlanResult[]): PlanStatus {
+  if (results.every((result) => result.shortage.length === 0)) {
+    return "SUCCESS";
+  }
+  return results.some((result) => result.allocations.length > 0) ? "PARTIAL" : "FAIL";
+}
+
+function combineCutLists(cutLists: CutListItem[][]): CutListItem[] {
+  const counts = new Map<number, number>();
+  for (const item of cutLists.flat()) {
+    counts.set(item.pieceMm, (counts.get(item.pieceMm) ?? 0) + item.count);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([pieceMm, count]) => ({ pieceMm, count }));
+}
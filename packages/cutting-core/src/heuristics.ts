@@ -0,0 +1,262 @@
+import {
+  attachPieceTraces,
+  consumedOnBar,
+  expandInventory,
+  expandOrderToPieces,
+  finalizePlan,
+  type MutableBar,
+  normalizePieces,
+  normalizePlanCosts,
+  normalizePlanParams,
+  type PieceFit,
+  pieceFitOf,
+  placeOnBar,
+  precheckPieces
+} from "./shared";
+import { attachSplices, splicePieces } from "./splice";
+import type {
+  BuildCutPlanHeuristicForPiecesInput,
+  BuildCutPlanHeuristicInput,
+  CutPlanResult,
+  HeuristicPlanComparison,
+  HeuristicStrategyId,
+  InventoryItem,
+  PlanCosts,
+  PlanParams
+} from "./types";
+
+/** Picks the bar for a piece, or returns -1 when none fits. */
+type BarSelector = (bars: MutableBar[], fit: PieceFit) => number;
+
+const heuristicStrategies: Record<HeuristicStrategyId, BarSelector> = {
+  FFD: selectFirstFit,
+  BFD: selectBestFit,
+  WFD: selectWorstFit,
+  SMALLEST_BAR_FIRST: selectSmallestBar,
+  REMNANTS_FIRST: selectRemnantFirst
+};
+
+export const HEURISTIC_STRATEGY_IDS = Object.keys(heuristicStrategies) as HeuristicStrategyId[];
+
+export function buildCutPlanHeuristic({
+  strategy,
+  inventoryItems,
+  orderLines,
+  params,
+  costs,
+  splicing
+}: BuildCutPlanHeuristicInput): CutPlanResult {
+  return buildCutPlanHeuristicForPieces({
+    strategy,
+    inventoryItems,
+    ...expandOrderToPieces(orderLines),
+    params,
+    costs,
+    splicing
+  });
+}
+
+export function buildCutPlanHeuristicForPieces({
+  strategy,
+  inventoryItems,
+  piecesMm,
+  pieceTraces,
+  params,
+  costs,
+  splicing
+}: BuildCutPlanHeuristicForPiecesInput): CutPlanResult {
+  const normalizedParams = normalizePlanParams(params);
+  const spliced = splicePieces(piecesMm, pieceTraces, inventoryItems, normalizedParams, splicing);
+  const pieces = normalizePieces(spliced.piecesMm);
+
+  const result = buildPlanFromPieces(
+    inventoryItems,
+    pieces,
+    normalizedParams,
+    normalizePlanCosts(costs),
+    heuristicStrategies[strategy]
+  );
+  return attachPieceTraces(
+    attachSplices(result, spliced),
+    spliced.piecesMm,
+    spliced.pieceTraces,
+    normalizedParams.kerfMm
+  );
+}
+
+/** Runs every registered strategy on the same order and inventory. */
+export function compareHeuristicPlans({
+  inventoryItems,
+  orderLines,
+  params,
+  costs,
+  splicing
+}: Omit<BuildCutPlanHeuristicInput, "strategy">): HeuristicPlanComparison[] {
+  return compareHeuristicPlansForPieces({
+    inventoryItems,
+    ...expandOrderToPieces(orderLines),
+    params,
+    costs,
+    splicing
+  });
+}
+
+export function compareHeuristicPlansForPieces(
+  input: Omit<BuildCutPlanHeuristicForPiecesInput, "strategy">
+): HeuristicPlanComparison[] {
+  return HEURISTIC_STRATEGY_IDS.map((strategy) => ({
+    strategy,
+    result: buildCutPlanHeuristicForPieces({ ...input, strategy })
+  }));
+}
+
+function buildPlanFromPieces(
+  inventoryItems: InventoryItem[],
+  pieces: number[],
+  normalizedParams: PlanParams,
+  normalizedCosts: PlanCosts,
+  selectBar: BarSelector
+): CutPlanResult {
+  const precheck = precheckPieces(inventoryItems, pieces, normalizedParams);
+  if (precheck) {
+    return precheck;
+  }
+
+  const bars = expandInventory(inventoryItems, normalizedParams);
+  const shortageMap = allocatePieces(bars, pieces, normalizedParams, selectBar);
+
+  return finalizePlan(bars, pieces, shortageMap, normalizedParams, normalizedCosts);
+}
+
+/**
+ * Places `pieces` (sorted longest first) onto `bars` in place and returns the
+ * count of pieces that did not fit, keyed by piece length.
+ */
+export function allocatePieces(
+  bars: MutableBar[],
+  pieces: number[],
+  params: PlanParams,
+  selectBar: BarSelector = selectBestFit
+): Map<number, number> {
+  const shortageMap = new Map<number, number>();
+
+  for (const piece of pieces) {
+    const fit = pieceFitOf(piece, params);
+    const barIdx = selectBar(bars, fit);
+
+    if (barIdx === -1) {
+      shortageMap.set(piece, (shortageMap.get(piece) ?? 0) + 1);
+      continue;
+    }
+
+    placeOnBar(bars[barIdx], fit, params);
+  }
+
+  return shortageMap;
+}
+
+function selectBestFit(bars: MutableBar[], fit: PieceFit): number {
+  let bestIdx = -1;
+  let bestRemnant = Number.POSITIVE_INFINITY;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const bar = bars[i];
+    const consumedMm = consumedOnBar(bar, fit);
+    if (consumedMm === -1) {
+      continue;
+    }
+
+    const remnant = bar.remainingMm - consumedMm;
+    if (remnant < bestRemnant) {
+      bestRemnant = remnant;
+      bestIdx = i;
+    }
+  }
+
+  return bestIdx;
+}
+
+/** First opened bar that fits, otherwise the first untouched bar in inventory order. */
+function selectFirstFit(bars: MutableBar[], fit: PieceFit): number {
+  let firstFresh = -1;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const bar = bars[i];
+    if (consumedOnBar(bar, fit) === -1) {
+      continue;
+    }
+    if (bar.cuts.length > 0) {
+      return i;
+    }
+    if (firstFresh === -1) {
+      firstFresh = i;
+    }
+  }
+
+  return firstFresh;
+}
+
+/** Opened bar with the most room left, otherwise the longest untouched bar. */
+function selectWorstFit(bars: MutableBar[], fit: PieceFit): number {
+  let openedIdx = -1;
+  let freshIdx = -1;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const bar = bars[i];
+    if (consumedOnBar(bar, fit) === -1) {
+      continue;
+    }
+    if (bar.cuts.length > 0) {
+      if (openedIdx === -1 || bar.remainingMm > bars[openedIdx].remainingMm) {
+        openedIdx = i;
+      }
+    } else if (freshIdx === -1 || bar.remainingMm > bars[freshIdx].remainingMm) {
+      freshIdx = i;
+    }
+  }
+
+  return openedIdx !== -1 ? openedIdx : freshIdx;
+}
+
+/** Shortest stock length that fits; among equal lengths the tightest fit. */
+function selectSmallestBar(bars: MutableBar[], fit: PieceFit): number {
+  let bestIdx = -1;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const bar = bars[i];
+    if (consumedOnBar(bar, fit) === -1) {
+      continue;
+    }
+    if (bestIdx === -1) {
+      bestIdx = i;
+      continue;
+    }
+
+    const best = bars[bestIdx];
+    if (
+      bar.originalMm < best.originalMm ||
+      (bar.originalMm === best.originalMm && bar.remainingMm < best.remainingMm)
+    ) {
+      bestIdx = i;
+    }
+  }
+
+  return bestIdx;
+}
+
+/** Best fit among remnant bars, falling back to best fit over all stock. */
+function selectRemnantFirst(bars: MutableBar[], fit: PieceFit): number {
+  let bestIdx = -1;
+
+  for (let i = 0; i < bars.length; i += 1) {
+    const bar = bars[i];
+    if (!bar.remnant || consumedOnBar(bar, fit) === -1) {
+      continue;
+    }
+    if (bestIdx === -1 || bar.remainingMm < bars[bestIdx].remainingMm) {
+      bestIdx = i;
+    }
+  }
+
+  return bestIdx !== -1 ? bestIdx : selectBestFit(bars, fit);
+}
@@ -0,0 +1,387 @@
+import { allocatePieces } from "./heuristics";
+import {
+  attachPieceTraces,
+  createBar,
+  expandOrderToPieces,
+  finalizePlan,
+  type MutableBar,
+  normalizePieces,
+  normalizePlanCosts,
+  normalizePlanParams,
+  objectiveOf,
+  type ObjectiveValue,
+  type PieceFit,
+  pieceFitOf,
+  placeOnBar,
+  precheckPieces,
+  sawCutsOf,
+  segmentForBar,
+  toNonNegativeInt
+} from "./shared";
+import { attachSplices, splicePieces } from "./splice";
+import type {
+  BuildCutPlanLocalSearchForPiecesInput,
+  BuildCutPlanLocalSearchInput,
+  CutPlanResult,
+  InventoryItem,
+  LocalSearchOptions,
+  LocalSearchPlanResult,
+  LocalSearchReport,
+  PlanParams
+} from "./types";
+
+const DEFAULT_SEED = 1;
+const DEFAULT_TIME_BUDGET_MS = 2_000;
+const DEFAULT_MAX_ITERATIONS = 200_000;
+/** A seeded search stops on its iteration cap; the clock only guards against runaway inputs. */
+const SEEDED_MAX_ITERATIONS = 20_000;
+const SEEDED_SAFETY_BUDGET_MS = 10_000;
+const DEADLINE_CHECK_INTERVAL = 256;
+const VALUE_EPSILON = 1e-9;
+
+type SearchBar = {
+  item: InventoryItem;
+  /** Pieces on this bar, longest first, which is also the order they are packed in. */
+  pieces: number[];
+  packed: MutableBar;
+  value: number;
+  /** Squared used length; favouring full bars lets the search empty others. */
+  fillSq: number;
+};
+
+type Score = {
+  unplaced: number;
+  value: number;
+  fillSq: number;
+};
+
+export function buildCutPlanLocalSearch({
+  inventoryItems,
+  orderLines,
+  params,
+  costs,
+  objective,
+  search,
+  splicing
+}: BuildCutPlanLocalSearchInput): LocalSearchPlanResult {
+  return buildCutPlanLocalSearchForPieces({
+    inventoryItems,
+    ...expandOrderToPieces(orderLines),
+    params,
+    costs,
+    objective,
+    search,
+    splicing
+  });
+}
+
+/**
+ * Improves the BFD plan with random move and swap steps, keeping a step only
+ * when it does not make the plan worse. Plans are ranked like the optimal
+ * solver ranks them; ties go to the plan with fuller bars, which lets the
+ * search drain a bar and close it. All randomness comes from `search.seed`.
+ * With a seed the search runs a fixed number of iterations, so the same seed
+ * gives the same plan unless the time budget cuts it short first.
+ */
+export function buildCutPlanLocalSearchForPieces({
+  inventoryItems,
+  piecesMm,
+  pieceTraces,
+  params,
+  costs,
+  objective = "WASTE",
+  search,
+  splicing
+}: BuildCutPlanLocalSearchForPiecesInput): LocalSearchPlanResult {
+  const normalizedParams = normalizePlanParams(params);
+  const normalizedCosts = normalizePlanCosts(costs);
+  const spliced = splicePieces(piecesMm, pieceTraces, inventoryItems, normalizedParams, splicing);
+  const pieces = normalizePieces(spliced.piecesMm);
+  const seed = toNonNegativeInt(search?.seed ?? DEFAULT_SEED) >>> 0;
+
+  const precheck = precheckPieces(inventoryItems, pieces, normalizedParams);
+  if (precheck) {
+    const traced = attachPieceTraces(precheck, spliced.piecesMm, spliced.pieceTraces, normalizedParams.kerfMm);
+    return withReport(traced, {
+      seed,
+      iterations: 0,
+      stoppedBy: "ITERATIONS",
+      initialStats: precheck.stats,
+      improvement: { placedPieces: 0, usedStocks: 0, wasteMm: 0, totalCost: 0 }
+    });
+  }
+
+  const items = inventoryItems.flatMap((item) =>
+    new Array<InventoryItem>(toNonNegativeInt(item.qty)).fill(item)
+  );
+  const seedBars = items.map((item) => createBar(item, normalizedParams));
+  const seedShortage = allocatePieces(seedBars, pieces, normalizedParams);
+  const initial = finalizePlan(seedBars, pieces, seedShortage, normalizedParams, normalizedCosts);
+
+  const outcome = searchMoves(
+    items,
+    seedBars.map((bar) => bar.cuts.map((cut) => cut.pieceMm)),
+    [...seedShortage.entries()].flatMap(([piece, count]) => new Array<number>(count).fill(piece)),
+    normalizedParams,
+    objectiveOf(objective, normalizedCosts),
+    createRandom(seed),
+    searchLimits(search)
+  );
+
+  const result = attachPieceTraces(
+    attachSplices(
+      finalizePlan(
+        outcome.bars.map((bar) => bar.packed),
+        pieces,
+        countPieces(outcome.unplaced),
+        normalizedParams,
+        normalizedCosts
+      ),
+      spliced
+    ),
+    spliced.piecesMm,
+    spliced.pieceTraces,
+    normalizedParams.kerfMm
+  );
+  const placedInitially = pieces.length - countUnplaced(initial);
+
+  return withReport(result, {
+    seed,
+    iterations: outcome.iterations,
+    stoppedBy: outcome.stoppedBy,
+    initialStats: initial.stats,
+    improvement: {
+      placedPieces: pieces.length - outcome.unplaced.length - placedInitially,
+      usedStocks: initial.stats.totalUsedStocks - result.stats.totalUsedStocks,
+      wasteMm: initial.stats.totalWasteMm - result.stats.totalWasteMm,
+      totalCost: Math.round((initial.stats.totalCost - result.stats.totalCost) * 100) / 100
+    }
+  });
+}
+
+function searchLimits(search: LocalSearchOptions | undefined): { maxIterations: number; deadline: number } {
+  const seeded = search?.seed !== undefined;
+  return {
+    maxIterations: search?.maxIterations ?? (seeded ? SEEDED_MAX_ITERATIONS : DEFAULT_MAX_ITERATIONS),
+    deadline:
+      Date.now() + (search?.timeBudgetMs ?? (seeded ? SEEDED_SAFETY_BUDGET_MS : DEFAULT_TIME_BUDGET_MS))
+  };
+}
+
+function searchMoves(
+  items: InventoryItem[],
+  piecesByBar: number[][],
+  initialUnplaced: number[],
+  params: PlanParams,
+  valueOf: ObjectiveValue,
+  random: () => number,
+  limits: { maxIterations: number; deadline: number }
+): { bars: SearchBar[]; unplaced: number[] } & Pick<LocalSearchReport, "iterations" | "stoppedBy"> {
+  const fits = new Map<number, PieceFit>();
+  const fitOf = (piece: number): PieceFit => {
+    let fit = fits.get(piece);
+    if (!fit) {
+      fit = pieceFitOf(piece, params);
+      fits.set(piece, fit);
+    }
+    return fit;
+  };
+
+  /** Packs `pieces` onto a fresh bar in order, or returns `null` when they do not fit. */
+  const pack = (item: InventoryItem, pieces: number[]): SearchBar | null => {
+    const bar = createBar(item, params);
+    for (const piece of pieces) {
+      const fit = fitOf(piece);
+      if (segmentForBar(bar, fit) === -1) {
+        return null;
+      }
+      placeOnBar(bar, fit, params);
+    }
+
+    const usedMm = bar.cuts.reduce((sum, cut) => sum + cut.effectiveMm, 0);
+    return {
+      item,
+      pieces,
+      packed: bar,
+      value: pieces.length > 0 ? valueOf(bar.originalMm, sawCutsOf(bar)) : 0,
+      fillSq: usedMm * usedMm
+    };
+  };
+
+  const bars = items.map((item, index) => {
+    const bar = pack(item, [...piecesByBar[index]].sort((a, b) => b - a));
+    if (!bar) {
+      throw new Error("Seed plan does not fit its own bars");
+    }
+    return bar;
+  });
+  const unplaced = [...initialUnplaced];
+  let score: Score = {
+    unplaced: unplaced.length,
+    value: bars.reduce((sum, bar) => sum + bar.value, 0),
+    fillSq: bars.reduce((sum, bar) => sum + bar.fillSq, 0)
+  };
+
+  const pick = (count: number): number => Math.floor(random() * count);
+
+  /** Applies the changed bars when the plan they give is no worse than the current one. */
+  const tryCommit = (changes: Array<[number, SearchBar]>, unplacedDelta: number): boolean => {
+    const next = { ...score, unplaced: score.unplaced + unplacedDelta };
+    for (const [index, bar] of changes) {
+      next.value += bar.value - bars[index].value;
+      next.fillSq += bar.fillSq - bars[index].fillSq;
+    }
+    if (!isNoWorse(next, score)) {
+      return false;
+    }
+    for (const [index, bar] of changes) {
+      bars[index] = bar;
+    }
+    score = next;
+    return true;
+  };
+
+  /** Moves one piece, taken from a bar or from the unplaced list, onto another bar. */
+  const tryMove = (used: number[]): void => {
+    const fromUnplaced = unplaced.length > 0 && (used.length === 0 || random() < 0.5);
+    const sourceIdx = fromUnplaced ? -1 : used[pick(used.length)];
+    const sourcePieces = fromUnplaced ? unplaced : bars[sourceIdx].pieces;
+    const pieceIdx = pick(sourcePieces.length);
+    const piece = sourcePieces[pieceIdx];
+
+    const targetIdx = used.length > 0 && random() < 0.8 ? used[pick(used.length)] : pick(bars.length);
+    if (targetIdx === sourceIdx) {
+      return;
+    }
+
+    const target = pack(bars[targetIdx].item, insertDescending(bars[targetIdx].pieces, piece));
+    if (!target) {
+      return;
+    }
+
+    if (fromUnplaced) {
+      if (tryCommit([[targetIdx, target]], -1)) {
+        unplaced.splice(pieceIdx, 1);
+      }
+      return;
+    }
+
+    const source = pack(bars[sourceIdx].item, withoutIndex(sourcePieces, pieceIdx));
+    if (source) {
+      tryCommit(
+        [
+          [sourceIdx, source],
+          [targetIdx, target]
+        ],
+        0
+      );
+    }
+  };
+
+  /** Exchanges one piece between two opened bars. */
+  const trySwap = (used: number[]): void => {
+    const a = used[pick(used.length)];
+    const b = used[pick(used.length)];
+    if (a === b) {
+      return;
+    }
+
+    const aIdx = pick(bars[a].pieces.length);
+    const bIdx = pick(bars[b].pieces.length);
+    const aPiece = bars[a].pieces[aIdx];
+    const bPiece = bars[b].pieces[bIdx];
+    if (aPiece === bPiece) {
+      return;
+    }
+
+    const nextA = pack(bars[a].item, insertDescending(withoutIndex(bars[a].pieces, aIdx), bPiece));
+    const nextB = pack(bars[b].item, insertDescending(withoutIndex(bars[b].pieces, bIdx), aPiece));
+    if (nextA && nextB) {
+      tryCommit(
+        [
+          [a, nextA],
+          [b, nextB]
+        ],
+        0
+      );
+    }
+  };
+
+  let iterations = 0;
+  while (iterations < limits.maxIterations) {
+    if (iterations % DEADLINE_CHECK_INTERVAL === 0 && Date.now() >= limits.deadline) {
+      return { bars, unplaced, iterations, stoppedBy: "TIME_BUDGET" };
+    }
+    iterations += 1;
+
+    const used: number[] = [];
+    for (let i = 0; i < bars.length; i += 1) {
+      if (bars[i].pieces.length > 0) {
+        used.push(i);
+      }
+    }
+    if (used.length === 0 && unplaced.length === 0) {
+      break;
+    }
+    if (used.length >= 2 && random() < 0.5) {
+      trySwap(used);
+    } else {
+      tryMove(used);
+    }
+  }
+
+  return { bars, unplaced, iterations, stoppedBy: "ITERATIONS" };
+}
+
+/** Fewer unplaced pieces first, then a lower objective value, then fuller bars. */
+function isNoWorse(next: Score, current: Score): boolean {
+  if (next.unplaced !== current.unplaced) {
+    return next.unplaced < current.unplaced;
+  }
+  if (Math.abs(next.value - current.value) > VALUE_EPSILON) {
+    return next.value < current.value;
+  }
+  return next.fillSq >= current.fillSq;
+}
+
+/** mulberry32: small, fast and good enough to drive move selection. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function insertDescending(pieces: number[], piece: number): number[] {
+  const next = [...pieces];
+  let index = next.findIndex((existing) => existing < piece);
+  if (index === -1) {
+    index = next.length;
+  }
+  next.splice(index, 0, piece);
+  return next;
+}
+
+function withoutIndex(pieces: number[], index: number): number[] {
+  return pieces.filter((_, i) => i !== index);
+}
+
+function countPieces(pieces: number[]): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const piece of pieces) {
+    map.set(piece, (map.get(piece) ?? 0) + 1);
+  }
+  return map;
+}
+
+function countUnplaced(result: CutPlanResult): number {
+  return result.shortage.reduce((sum, item) => sum + item.missingCount, 0);
+}
+
+function withReport(result: CutPlanResult, localSearch: LocalSearchReport): LocalSearchPlanResult {
+  return { ...result, localSearch };
+}
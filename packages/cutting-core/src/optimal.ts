@@ -0,0 +1,328 @@
+import { allocatePieces } from "./heuristics";
+import {
+  attachPieceTraces,
+  consumedIn,
+  createBar,
+  expandInventory,
+  expandOrderToPieces,
+  finalizePlan,
+  type MutableBar,
+  normalizePieces,
+  normalizePlanCosts,
+  normalizePlanParams,
+  objectiveOf,
+  type ObjectiveValue,
+  pieceFitOf,
+  placeOnBar,
+  precheckPieces,
+  sawCutsOf,
+  segmentForBar,
+  toNonNegativeInt
+} from "./shared";
+import { attachSplices, splicePieces } from "./splice";
+import type {
+  BuildCutPlanOptimalForPiecesInput,
+  BuildCutPlanOptimalInput,
+  CutPlanResult,
+  InventoryItem,
+  OptimalSolverOptions,
+  PlanParams
+} from "./types";
+
+const DEFAULT_MAX_NODES = 200_000;
+const DEFAULT_TIME_BUDGET_MS = 2_000;
+const DEADLINE_CHECK_INTERVAL = 1024;
+
+type StockGroup = {
+  item: InventoryItem;
+  /** Untouched bar of this group, used to test fits without building a new bar. */
+  template: MutableBar;
+  /** Groups with equal keys open identical bars, so only one of them is branched on. */
+  key: string;
+  lengthMm: number;
+  usableMm: number;
+  /** End-trim cuts every bar of this group needs once it is opened. */
+  trimCuts: number;
+  available: number;
+};
+
+type OpenBar = {
+  item: InventoryItem;
+  bar: MutableBar;
+};
+
+type SearchCost = {
+  unplaced: number;
+  /** Stock length opened for `WASTE`, material plus labour cost for `COST`. */
+  value: number;
+};
+
+export function buildCutPlanOptimal({
+  inventoryItems,
+  orderLines,
+  params,
+  costs,
+  objective,
+  solver,
+  splicing
+}: BuildCutPlanOptimalInput): CutPlanResult {
+  return buildCutPlanOptimalForPieces({
+    inventoryItems,
+    ...expandOrderToPieces(orderLines),
+    params,
+    costs,
+    objective,
+    solver,
+    splicing
+  });
+}
+
+/**
+ * Branch-and-bound over bar assignments. The BFD plan seeds the incumbent, so
+ * the result is never worse than `buildCutPlanBFDForPieces`. Plans are ranked
+ * by unplaced pieces first and by `objective` second: total stock length
+ * opened for `WASTE` (the default), material and labour cost for `COST`. When
+ * the node or time budget runs out the best plan found so far is returned.
+ */
+export function buildCutPlanOptimalForPieces({
+  inventoryItems,
+  piecesMm,
+  pieceTraces,
+  params,
+  costs,
+  objective = "WASTE",
+  solver,
+  splicing
+}: BuildCutPlanOptimalForPiecesInput): CutPlanResult {
+  const normalizedParams = normalizePlanParams(params);
+  const normalizedCosts = normalizePlanCosts(costs);
+  const spliced = splicePieces(piecesMm, pieceTraces, inventoryItems, normalizedParams, splicing);
+  const pieces = normalizePieces(spliced.piecesMm);
+
+  const precheck = precheckPieces(inventoryItems, pieces, normalizedParams);
+  if (precheck) {
+    return attachPieceTraces(precheck, spliced.piecesMm, spliced.pieceTraces, normalizedParams.kerfMm);
+  }
+
+  const { bars, shortageMap } = searchOptimal(
+    inventoryItems,
+    pieces,
+    normalizedParams,
+    objectiveOf(objective, normalizedCosts),
+    solver
+  );
+  const result = attachSplices(
+    finalizePlan(bars, pieces, shortageMap, normalizedParams, normalizedCosts),
+    spliced
+  );
+  return attachPieceTraces(result, spliced.piecesMm, spliced.pieceTraces, normalizedParams.kerfMm);
+}
+
+function searchOptimal(
+  inventoryItems: InventoryItem[],
+  pieces: number[],
+  params: PlanParams,
+  valueOf: ObjectiveValue,
+  options?: OptimalSolverOptions
+): { bars: MutableBar[]; shortageMap: Map<number, number> } {
+  const maxNodes = options?.maxNodes ?? DEFAULT_MAX_NODES;
+  const deadline = Date.now() + (options?.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+
+  const seedBars = expandInventory(inventoryItems, params);
+  const seedShortage = allocatePieces(seedBars, pieces, params);
+  let bestBars = seedBars;
+  let bestShortage = seedShortage;
+  const seedUsed = seedBars.filter((bar) => bar.cuts.length > 0);
+  let bestCost: SearchCost = {
+    unplaced: [...seedShortage.values()].reduce((sum, count) => sum + count, 0),
+    value: valueOf(
+      seedUsed.reduce((sum, bar) => sum + bar.originalMm, 0),
+      seedUsed.reduce((sum, bar) => sum + sawCutsOf(bar), 0)
+    )
+  };
+
+  const fits = pieces.map((piece) => pieceFitOf(piece, params));
+  // A piece never consumes less than its minimum room, which keeps the
+  // remaining-demand bound valid when tolerance or trailing-kerf cuts apply.
+  const suffixDemand = new Array<number>(pieces.length + 1).fill(0);
+  for (let i = pieces.length - 1; i >= 0; i -= 1) {
+    suffixDemand[i] = suffixDemand[i + 1] + fits[i].minRoomMm;
+  }
+
+  const groups: StockGroup[] = inventoryItems
+    .map((item) => {
+      const template = createBar(item, params);
+      return {
+        item,
+        template,
+        key: `${template.originalMm}:${freeSignature(template)}`,
+        lengthMm: template.originalMm,
+        usableMm: template.remainingMm,
+        trimCuts: sawCutsOf(template),
+        available: toNonNegativeInt(item.qty)
+      };
+    })
+    .filter((group) => group.usableMm > 0 && group.available > 0)
+    .sort((a, b) => a.lengthMm - b.lengthMm || b.usableMm - a.usableMm);
+
+  const openBars: OpenBar[] = [];
+  const assignment = new Array<number>(pieces.length).fill(-1);
+  let nodes = 0;
+  let stopped = false;
+
+  const canImprove = (unplaced: number, valueLowerBound: number): boolean => {
+    if (unplaced !== bestCost.unplaced) {
+      return unplaced < bestCost.unplaced;
+    }
+    return valueLowerBound < bestCost.value;
+  };
+
+  const record = (unplaced: number, value: number) => {
+    const bars = openBars.map((bar) => createBar(bar.item, params));
+    const shortageMap = new Map<number, number>();
+
+    for (let i = 0; i < pieces.length; i += 1) {
+      const barIdx = assignment[i];
+      if (barIdx === -1) {
+        shortageMap.set(pieces[i], (shortageMap.get(pieces[i]) ?? 0) + 1);
+        continue;
+      }
+      placeOnBar(bars[barIdx], fits[i], params);
+    }
+
+    bestBars = bars;
+    bestShortage = shortageMap;
+    bestCost = { unplaced, value };
+  };
+
+  const visit = (i: number, unplaced: number, openedMm: number, sawCuts: number, freeMm: number): void => {
+    if (stopped) {
+      return;
+    }
+
+    nodes += 1;
+    if (nodes > maxNodes || (nodes % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline)) {
+      stopped = true;
+      return;
+    }
+
+    if (!canImprove(unplaced, valueOf(openedMm + Math.max(0, suffixDemand[i] - freeMm), sawCuts))) {
+      return;
+    }
+
+    if (i === pieces.length) {
+      record(unplaced, valueOf(openedMm, sawCuts));
+      return;
+    }
+
+    const fit = fits[i];
+    // Equal pieces are interchangeable, so they are assigned to non-decreasing
+    // bar indexes with "unplaced" ordered last.
+    const sameAsPrevious = i > 0 && pieces[i] === pieces[i - 1];
+    const previousBar = sameAsPrevious ? assignment[i - 1] : 0;
+    const minBarIdx = previousBar === -1 ? Number.POSITIVE_INFINITY : previousBar;
+
+    if (minBarIdx !== Number.POSITIVE_INFINITY) {
+      const candidates: Array<{ barIdx: number; segmentIdx: number; consumedMm: number; cuts: number }> =
+        [];
+      const seenStates = new Set<number | string>();
+      for (let j = minBarIdx; j < openBars.length; j += 1) {
+        const bar = openBars[j].bar;
+        const segmentIdx = segmentForBar(bar, fit);
+        if (segmentIdx === -1) {
+          continue;
+        }
+        const state = freeSignature(bar);
+        if (seenStates.has(state)) {
+          continue;
+        }
+        seenStates.add(state);
+        const segment = bar.segments[segmentIdx];
+        const consumedMm = consumedIn(segment.endMm - segment.cursorMm, fit);
+        candidates.push({ barIdx: j, segmentIdx, consumedMm, cuts: cutsAfter(bar, segment.cursorMm + consumedMm) });
+      }
+      candidates.sort(
+        (a, b) =>
+          openBars[a.barIdx].bar.remainingMm - a.consumedMm - (openBars[b.barIdx].bar.remainingMm - b.consumedMm)
+      );
+
+      for (const candidate of candidates) {
+        const bar = openBars[candidate.barIdx].bar;
+        occupy(bar, candidate.segmentIdx, candidate.consumedMm);
+        assignment[i] = candidate.barIdx;
+        visit(i + 1, unplaced, openedMm, sawCuts + candidate.cuts, freeMm - candidate.consumedMm);
+        occupy(bar, candidate.segmentIdx, -candidate.consumedMm);
+        assignment[i] = -1;
+        if (stopped) {
+          return;
+        }
+      }
+
+      const triedGroups = new Set<string>();
+      for (const group of groups) {
+        if (group.available === 0 || triedGroups.has(group.key)) {
+          continue;
+        }
+        const segmentIdx = segmentForBar(group.template, fit);
+        if (segmentIdx === -1) {
+          continue;
+        }
+        triedGroups.add(group.key);
+
+        const bar = cloneBar(group.template);
+        const segment = bar.segments[segmentIdx];
+        const consumedMm = consumedIn(segment.endMm - segment.cursorMm, fit);
+        occupy(bar, segmentIdx, consumedMm);
+        group.available -= 1;
+        openBars.push({ item: group.item, bar });
+        assignment[i] = openBars.length - 1;
+        visit(
+          i + 1,
+          unplaced,
+          openedMm + group.lengthMm,
+          sawCuts + group.trimCuts + cutsAfter(bar, segment.cursorMm + consumedMm),
+          freeMm + group.usableMm - consumedMm
+        );
+        openBars.pop();
+        group.available += 1;
+        assignment[i] = -1;
+        if (stopped) {
+          return;
+        }
+      }
+    }
+
+    visit(i + 1, unplaced + 1, openedMm, sawCuts, freeMm);
+  };
+
+  visit(0, 0, 0, 0, 0);
+
+  return { bars: bestBars, shortageMap: bestShortage };
+}
+
+/** A piece ending at the physical end of the bar needs no saw cut after it. */
+function cutsAfter(bar: MutableBar, pieceEndMm: number): number {
+  return pieceEndMm < bar.originalMm ? 1 : 0;
+}
+
+/** Moves the cursor of one segment; a negative length undoes an earlier placement. */
+function occupy(bar: MutableBar, segmentIdx: number, consumedMm: number): void {
+  bar.segments[segmentIdx].cursorMm += consumedMm;
+  bar.remainingMm -= consumedMm;
+}
+
+function cloneBar(bar: MutableBar): MutableBar {
+  return {
+    ...bar,
+    segments: bar.segments.map((segment) => ({ ...segment })),
+    cuts: []
+  };
+}
+
+/** Bars with the same free length per segment are interchangeable during the search. */
+function freeSignature(bar: MutableBar): number | string {
+  if (bar.segments.length === 1) {
+    return bar.remainingMm;
+  }
+  return bar.segments.map((segment) => segment.endMm - segment.cursorMm).join(",");
+}
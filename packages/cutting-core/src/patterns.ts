@@ -0,0 +1,73 @@
+import type { Allocation, CutPattern, CutPiece, PatternCut } from "./types";
+
+/**
+ * Groups allocations that share a stock length and an identical cut layout.
+ * Patterns keep the order in which their first bar appears in `allocations`.
+ */
+export function buildCutPatterns(allocations: Allocation[], kerfMm: number): CutPattern[] {
+  const patterns = new Map<string, CutPattern>();
+
+  for (const allocation of allocations) {
+    const ordered = [...allocation.cuts].sort((a, b) => a.offsetMm - b.offsetMm);
+    const cuts = patternCutsOf(ordered, kerfMm);
+    const key = JSON.stringify([
+      allocation.stock.lengthMm,
+      allocation.trimmedMm,
+      allocation.remnantMm,
+      allocation.remnantKept,
+      cuts
+    ]);
+
+    const existing = patterns.get(key);
+    if (existing) {
+      existing.repeat += 1;
+      if (!existing.sourceIds.includes(allocation.stock.sourceId)) {
+        existing.sourceIds.push(allocation.stock.sourceId);
+      }
+      addTraces(existing.cuts, ordered);
+      continue;
+    }
+
+    addTraces(cuts, ordered);
+    patterns.set(key, {
+      stockLengthMm: allocation.stock.lengthMm,
+      sourceIds: [allocation.stock.sourceId],
+      trimmedMm: allocation.trimmedMm,
+      cuts,
+      remnantMm: allocation.remnantMm,
+      remnantKept: allocation.remnantKept,
+      repeat: 1
+    });
+  }
+
+  return [...patterns.values()];
+}
+
+function patternCutsOf(ordered: CutPiece[], kerfMm: number): PatternCut[] {
+  return ordered.map((cut) => {
+    const patternCut: PatternCut = { pieceMm: cut.pieceMm, offsetMm: cut.offsetMm };
+    // A full cut ends with its kerf; a cut that ran short of its effective
+    // length (trailing kerf skipped) takes none.
+    if (kerfMm > 0 && !cut.trailingKerfSkipped) {
+      patternCut.kerfOffsetMm = cut.offsetMm + cut.effectiveMm - kerfMm;
+    }
+    return patternCut;
+  });
+}
+
+/**
+ * Records which order piece each cut stands for on one more bar. Traces are
+ * added after keying, so they never split a pattern.
+ */
+function addTraces(patternCuts: PatternCut[], ordered: CutPiece[]): void {
+  ordered.forEach((cut, i) => {
+    if (cut.role === undefined || cut.orderLineRef === undefined) {
+      return;
+    }
+    const trace =
+      cut.orderId === undefined
+        ? { orderLineRef: cut.orderLineRef, role: cut.role }
+        : { orderLineRef: cut.orderLineRef, orderId: cut.orderId, role: cut.role };
+    (patternCuts[i].pieces ??= []).push(trace);
+  });
+}
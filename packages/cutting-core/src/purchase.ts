@@ -0,0 +1,121 @@
+import { buildCutPlanOptimalForPieces } from "./optimal";
+import {
+  fitsIn,
+  longestSegmentOf,
+  normalizePieces,
+  normalizePlanParams,
+  pieceFitOf,
+  toNonNegativeInt
+} from "./shared";
+import type {
+  CutPlanResult,
+  InventoryItem,
+  PurchaseSuggestion,
+  PurchaseSuggestionInput,
+  ShortageItem,
+  ShortageReason
+} from "./types";
+
+/** Shortage reasons that buying more bars can resolve. */
+const PURCHASABLE_REASONS: ReadonlySet<ShortageReason> = new Set([
+  "INSUFFICIENT_STOCK_AFTER_ALLOCATION",
+  "NO_STOCK_LONG_ENOUGH"
+]);
+
+/**
+ * Pieces a plan left uncut for lack of stock. A plan that failed before
+ * allocating anything reports only its longest piece, so every piece counts
+ * as missing there.
+ */
+export function missingPiecesOf(result: CutPlanResult): number[] {
+  const pieces: number[] = [];
+
+  if (result.status === "FAIL" && result.allocations.length === 0) {
+    if (!result.shortage.some((item) => PURCHASABLE_REASONS.has(item.reason))) {
+      return pieces;
+    }
+    for (const item of result.cutList) {
+      pieces.push(...new Array<number>(item.count).fill(item.pieceMm));
+    }
+    return pieces;
+  }
+
+  for (const item of result.shortage) {
+    if (PURCHASABLE_REASONS.has(item.reason)) {
+      pieces.push(...new Array<number>(item.missingCount).fill(item.pieceMm));
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Chooses new factory bars for `piecesMm` by running the optimal solver over
+ * an unlimited supply of every purchasable length. Pieces too long for any
+ * of them are reported in `unfulfilled` and left out of the search.
+ */
+export function suggestPurchase({
+  piecesMm,
+  purchasableLengthsMm,
+  params,
+  costs,
+  objective = "COST",
+  solver
+}: PurchaseSuggestionInput): PurchaseSuggestion {
+  const normalizedParams = normalizePlanParams(params);
+  const pieces = normalizePieces(piecesMm);
+  const lengths = [...new Set(purchasableLengthsMm.map(toNonNegativeInt).filter((length) => length > 0))];
+  const catalog: InventoryItem[] = lengths.map((lengthMm, index) => ({
+    id: index + 1,
+    lengthMm,
+    qty: pieces.length
+  }));
+
+  const longestMm = Math.max(0, ...lengths);
+  const longestUsableMm = Math.max(0, ...catalog.map((item) => longestSegmentOf(item, normalizedParams)));
+  const placeable: number[] = [];
+  const rejected = new Map<number, ShortageItem>();
+  for (const piece of pieces) {
+    if (fitsIn(longestUsableMm, pieceFitOf(piece, normalizedParams))) {
+      placeable.push(piece);
+      continue;
+    }
+    const existing = rejected.get(piece);
+    if (existing) {
+      existing.missingCount += 1;
+      continue;
+    }
+    rejected.set(piece, {
+      pieceMm: piece,
+      missingCount: 1,
+      reason: piece > longestMm ? "NO_STOCK_LONG_ENOUGH" : "KERF_ALLOWANCE_MAKES_IT_IMPOSSIBLE"
+    });
+  }
+
+  const plan = buildCutPlanOptimalForPieces({
+    inventoryItems: catalog,
+    piecesMm: placeable,
+    params: normalizedParams,
+    costs,
+    objective,
+    solver
+  });
+
+  const qtyByLength = new Map<number, number>();
+  for (const allocation of plan.allocations) {
+    const lengthMm = allocation.stock.lengthMm;
+    qtyByLength.set(lengthMm, (qtyByLength.get(lengthMm) ?? 0) + 1);
+  }
+
+  return {
+    objective,
+    items: [...qtyByLength.entries()]
+      .sort((a, b) => b[0] - a[0])
+      .map(([lengthMm, qty]) => ({ lengthMm, qty })),
+    totalLengthMm: plan.allocations.reduce((sum, allocation) => sum + allocation.stock.lengthMm, 0),
+    wasteMm: plan.stats.totalWasteMm,
+    materialCost: plan.stats.materialCost,
+    laborCost: plan.stats.laborCost,
+    totalCost: plan.stats.totalCost,
+    unfulfilled: [...rejected.values()].concat(plan.shortage)
+  };
+}
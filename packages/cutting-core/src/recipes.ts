@@ -0,0 +1,149 @@
+import type { ProductRecipe } from "./types";
+
+/** A plain screen frame: two sides of the height and two of the width. */
+export const FRAME_RECIPE: ProductRecipe = {
+  name: "FRAME",
+  pieces: [
+    { role: "HEIGHT", lengthFormula: "height", count: 2 },
+    { role: "WIDTH", lengthFormula: "width", count: 2 }
+  ]
+};
+
+/** Width-only rows, such as window sills, cut two pieces of the width. */
+export const WIDTH_ONLY_RECIPE: ProductRecipe = {
+  name: "WIDTH_ONLY",
+  pieces: [{ role: "WIDTH", lengthFormula: "width", count: 2 }]
+};
+
+export type PieceDimensions = {
+  height: number;
+  width: number;
+};
+
+export type PieceFormula = (dimensions: PieceDimensions) => number;
+
+type Token =
+  | { kind: "number"; value: number; at: number }
+  | { kind: "name"; value: string; at: number }
+  | { kind: "symbol"; value: string; at: number };
+
+const VARIABLES = new Set<string>(["height", "width"]);
+
+/**
+ * Compiles a piece length formula: numbers in millimetres, `height`, `width`,
+ * `+ - * /` and parentheses, e.g. `width - 2 * 20`. Throws on anything else.
+ */
+export function compilePieceFormula(formula: string): PieceFormula {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (message: string, at = peek()?.at ?? formula.length): never => {
+    throw new Error(`${message} at position ${at + 1} of "${formula}"`);
+  };
+
+  const parseSum = (): PieceFormula => {
+    let left = parseProduct();
+    for (let token = peek(); token?.kind === "symbol" && (token.value === "+" || token.value === "-"); token = peek()) {
+      position += 1;
+      const lhs = left;
+      const rhs = parseProduct();
+      left = token.value === "+" ? (dims) => lhs(dims) + rhs(dims) : (dims) => lhs(dims) - rhs(dims);
+    }
+    return left;
+  };
+
+  const parseProduct = (): PieceFormula => {
+    let left = parseUnary();
+    for (let token = peek(); token?.kind === "symbol" && (token.value === "*" || token.value === "/"); token = peek()) {
+      position += 1;
+      const lhs = left;
+      const rhs = parseUnary();
+      left = token.value === "*" ? (dims) => lhs(dims) * rhs(dims) : (dims) => lhs(dims) / rhs(dims);
+    }
+    return left;
+  };
+
+  const parseUnary = (): PieceFormula => {
+    const token = peek();
+    if (token?.kind === "symbol" && token.value === "-") {
+      position += 1;
+      const operand = parseUnary();
+      return (dims) => -operand(dims);
+    }
+    return parseAtom();
+  };
+
+  const parseAtom = (): PieceFormula => {
+    const token = peek();
+    if (!token) {
+      return fail("Unexpected end of formula");
+    }
+    position += 1;
+    if (token.kind === "number") {
+      const { value } = token;
+      return () => value;
+    }
+    if (token.kind === "name") {
+      if (!VARIABLES.has(token.value)) {
+        return fail(`Unknown name "${token.value}"`, token.at);
+      }
+      return token.value === "height" ? (dims) => dims.height : (dims) => dims.width;
+    }
+    if (token.value === "(") {
+      const inner = parseSum();
+      const closing = peek();
+      if (closing?.kind !== "symbol" || closing.value !== ")") {
+        return fail('Expected ")"');
+      }
+      position += 1;
+      return inner;
+    }
+    return fail(`Unexpected "${token.value}"`, token.at);
+  };
+
+  const compiled = parseSum();
+  if (position < tokens.length) {
+    fail(`Unexpected "${tokens[position].value}"`);
+  }
+  return compiled;
+}
+
+/** Pieces one unit of the recipe cuts. */
+export function recipePieceCount(recipe: ProductRecipe): number {
+  return recipe.pieces.reduce((sum, piece) => sum + Math.max(0, Math.round(piece.count)), 0);
+}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < formula.length) {
+    const char = formula[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    const number = /^\d+(\.\d+)?/.exec(formula.slice(index));
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), at: index });
+      index += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_]\w*/.exec(formula.slice(index));
+    if (name) {
+      tokens.push({ kind: "name", value: name[0], at: index });
+      index += name[0].length;
+      continue;
+    }
+    if ("+-*/()".includes(char)) {
+      tokens.push({ kind: "symbol", value: char, at: index });
+      index += 1;
+      continue;
+    }
+    throw new Error(`Unexpected "${char}" at position ${index + 1} of "${formula}"`);
+  }
+  if (tokens.length === 0) {
+    throw new Error("Formula is empty");
+  }
+  return tokens;
+}
@@ -0,0 +1,602 @@
+import { buildCutPatterns } from "./patterns";
+import { compilePieceFormula, FRAME_RECIPE } from "./recipes";
+import type {
+  Allocation,
+  CutListItem,
+  CutPiece,
+  CutPlanResult,
+  CutPlanStats,
+  DefectZone,
+  InventoryItem,
+  OrderLineMm,
+  PlanCosts,
+  PlanObjective,
+  PlanParams,
+  PieceTrace,
+  PlanStatus,
+  ShortageItem,
+  ShortageReason,
+  StockLengthStats,
+  TracedPieces
+} from "./types";
+
+const DEFAULT_PLAN_PARAMS = {
+  kerfMm: 3,
+  allowanceMm: 1,
+  minRemnantMm: 100,
+  toleranceMm: 1,
+  trimStartMm: 0,
+  trimEndMm: 0
+} as const;
+
+const DEFAULT_PLAN_COSTS: PlanCosts = {
+  pricePerMeter: 0,
+  costPerCut: 0
+};
+
+/** Clean stretch of a bar between trims and defects; cuts advance `cursorMm`. */
+export type BarSegment = {
+  startMm: number;
+  endMm: number;
+  cursorMm: number;
+};
+
+export type MutableBar = {
+  sourceId: number;
+  originalMm: number;
+  /** Free length summed over all segments. */
+  remainingMm: number;
+  remnant: boolean;
+  trimmedMm: number;
+  usableEndMm: number;
+  defects: DefectZone[];
+  segments: BarSegment[];
+  cuts: CutPiece[];
+};
+
+export function normalizePlanParams(params?: Partial<PlanParams>): PlanParams {
+  return {
+    kerfMm: params?.kerfMm ?? DEFAULT_PLAN_PARAMS.kerfMm,
+    allowanceMm: params?.allowanceMm ?? DEFAULT_PLAN_PARAMS.allowanceMm,
+    minRemnantMm: params?.minRemnantMm ?? DEFAULT_PLAN_PARAMS.minRemnantMm,
+    toleranceMm: params?.toleranceMm ?? DEFAULT_PLAN_PARAMS.toleranceMm,
+    trimStartMm: params?.trimStartMm ?? DEFAULT_PLAN_PARAMS.trimStartMm,
+    trimEndMm: params?.trimEndMm ?? DEFAULT_PLAN_PARAMS.trimEndMm
+  };
+}
+
+export function normalizePlanCosts(costs?: Partial<PlanCosts>): PlanCosts {
+  return {
+    pricePerMeter: Math.max(0, costs?.pricePerMeter ?? DEFAULT_PLAN_COSTS.pricePerMeter),
+    costPerCut: Math.max(0, costs?.costPerCut ?? DEFAULT_PLAN_COSTS.costPerCut)
+  };
+}
+
+export function costOf(openedMm: number, sawCuts: number, costs: PlanCosts): number {
+  return (openedMm / 1000) * costs.pricePerMeter + sawCuts * costs.costPerCut;
+}
+
+/** Ranks a plan by the stock length it opens and the saw cuts it needs. */
+export type ObjectiveValue = (openedMm: number, sawCuts: number) => number;
+
+export function objectiveOf(objective: PlanObjective, costs: PlanCosts): ObjectiveValue {
+  if (objective === "COST") {
+    return (openedMm, sawCuts) => costOf(openedMm, sawCuts, costs);
+  }
+  return (openedMm) => openedMm;
+}
+
+/**
+ * Saw cuts needed for a bar: one per end trim and one after every piece,
+ * except a piece that runs to the physical end of the bar.
+ */
+export function sawCutsOf(bar: MutableBar): number {
+  const trimEndMm = bar.originalMm - bar.usableEndMm;
+  const trimStartMm = bar.trimmedMm - trimEndMm;
+  let sawCuts = (trimStartMm > 0 ? 1 : 0) + (trimEndMm > 0 ? 1 : 0);
+  for (const cut of bar.cuts) {
+    if (cut.offsetMm + cut.effectiveMm < bar.originalMm) {
+      sawCuts += 1;
+    }
+  }
+  return sawCuts;
+}
+
+export function normalizePieces(piecesMm: number[]): number[] {
+  const pieces = piecesMm.map((piece) => toNonNegativeInt(piece)).filter((piece) => piece > 0);
+  pieces.sort((a, b) => b - a);
+  return pieces;
+}
+
+export function effectiveLengthOf(pieceMm: number, params: PlanParams): number {
+  return pieceMm + params.allowanceMm + params.kerfMm;
+}
+
+export type PieceFit = {
+  pieceMm: number;
+  /** Length consumed when the bar has room for the piece, allowance and kerf. */
+  effectiveMm: number;
+  /** Shortest remaining length the piece can still be cut from. */
+  minRoomMm: number;
+};
+
+/**
+ * A piece fits when the bar has room for its effective length. It also fits
+ * as the last cut on a bar: the trailing kerf is dropped when the piece runs
+ * to the bar end, and the piece may fall short by up to `toleranceMm`.
+ */
+export function pieceFitOf(pieceMm: number, params: PlanParams): PieceFit {
+  return {
+    pieceMm,
+    effectiveMm: effectiveLengthOf(pieceMm, params),
+    minRoomMm: Math.max(1, pieceMm + params.allowanceMm - params.toleranceMm)
+  };
+}
+
+export function fitsIn(remainingMm: number, fit: PieceFit): boolean {
+  return remainingMm >= fit.minRoomMm;
+}
+
+export function consumedIn(remainingMm: number, fit: PieceFit): number {
+  return Math.min(fit.effectiveMm, remainingMm);
+}
+
+/** Segment of `bar` that fits the piece with the least free length left over, or -1. */
+export function segmentForBar(bar: Pick<MutableBar, "segments">, fit: PieceFit): number {
+  let bestIdx = -1;
+  let bestLeftover = Number.POSITIVE_INFINITY;
+
+  for (let j = 0; j < bar.segments.length; j += 1) {
+    const freeMm = bar.segments[j].endMm - bar.segments[j].cursorMm;
+    if (!fitsIn(freeMm, fit)) {
+      continue;
+    }
+    const leftover = freeMm - consumedIn(freeMm, fit);
+    if (leftover < bestLeftover) {
+      bestLeftover = leftover;
+      bestIdx = j;
+    }
+  }
+
+  return bestIdx;
+}
+
+/** Length the piece would take from `bar`, or -1 when no clean segment fits it. */
+export function consumedOnBar(bar: Pick<MutableBar, "segments">, fit: PieceFit): number {
+  const segmentIdx = segmentForBar(bar, fit);
+  if (segmentIdx === -1) {
+    return -1;
+  }
+  const segment = bar.segments[segmentIdx];
+  return consumedIn(segment.endMm - segment.cursorMm, fit);
+}
+
+export function placeOnBar(bar: MutableBar, fit: PieceFit, params: PlanParams): void {
+  const segment = bar.segments[segmentForBar(bar, fit)];
+  const consumedMm = consumedIn(segment.endMm - segment.cursorMm, fit);
+  const cut: CutPiece = { pieceMm: fit.pieceMm, effectiveMm: consumedMm, offsetMm: segment.cursorMm };
+
+  if (consumedMm < fit.effectiveMm) {
+    if (params.kerfMm > 0) {
+      cut.trailingKerfSkipped = true;
+    }
+    const shortMm = fit.pieceMm + params.allowanceMm - consumedMm;
+    if (shortMm > 0) {
+      cut.toleranceUsedMm = shortMm;
+    }
+  }
+
+  bar.cuts.push(cut);
+  segment.cursorMm += consumedMm;
+  bar.remainingMm -= consumedMm;
+}
+
+/**
+ * Handles the cases every solver answers the same way: an empty order and an
+ * order whose longest piece cannot fit any stock length. Returns `null` when
+ * the pieces should be handed to a solver.
+ */
+export function precheckPieces(
+  inventoryItems: InventoryItem[],
+  pieces: number[],
+  params: PlanParams
+): CutPlanResult | null {
+  if (pieces.length === 0) {
+    return {
+      status: "SUCCESS",
+      cutList: [],
+      allocations: [],
+      patterns: [],
+      shortage: [],
+      stats: emptyStats(0)
+    };
+  }
+
+  const longestPiece = pieces[0];
+  const maxStock = Math.max(0, ...inventoryItems.map((x) => longestSegmentOf(x, params)));
+
+  if (fitsIn(maxStock, pieceFitOf(longestPiece, params))) {
+    return null;
+  }
+
+  const reason: ShortageReason =
+    longestPiece <= maxStock ? "KERF_ALLOWANCE_MAKES_IT_IMPOSSIBLE" : "NO_STOCK_LONG_ENOUGH";
+
+  return {
+    status: "FAIL",
+    cutList: summarizePieces(pieces),
+    allocations: [],
+    patterns: [],
+    shortage: [
+      {
+        pieceMm: longestPiece,
+        missingCount: countOf(pieces, longestPiece),
+        reason
+      }
+    ],
+    stats: emptyStats(pieces.length)
+  };
+}
+
+export function finalizePlan(
+  bars: MutableBar[],
+  pieces: number[],
+  shortageMap: Map<number, number>,
+  params: PlanParams,
+  costs: PlanCosts
+): CutPlanResult {
+  const usedBars = bars.filter((bar) => bar.cuts.length > 0);
+  const allocations: Allocation[] = usedBars.map((bar) => {
+    const usedMm = bar.cuts.reduce((sum, cut) => sum + cut.effectiveMm, 0);
+    // The remnant is the tail after the last segment that was cut into;
+    // free space in earlier segments cannot be kept in one piece.
+    const lastUsed = [...bar.segments].reverse().find((segment) => segment.cursorMm > segment.startMm);
+    const remnantStartMm = lastUsed ? lastUsed.cursorMm : bar.usableEndMm;
+    const remnantMm = bar.usableEndMm - remnantStartMm;
+    const remnantDefects = defectsWithin(bar.defects, remnantStartMm, bar.usableEndMm);
+    const allocation: Allocation = {
+      stock: {
+        lengthMm: bar.originalMm,
+        sourceId: bar.sourceId
+      },
+      cuts: bar.cuts,
+      usedMm,
+      remnantMm,
+      remnantKept: longestCleanRun(remnantMm, remnantDefects) >= params.minRemnantMm,
+      trimmedMm: bar.trimmedMm,
+      skippedMm: bar.originalMm - bar.trimmedMm - usedMm - remnantMm
+    };
+    if (remnantDefects.length > 0) {
+      allocation.remnantDefects = remnantDefects;
+    }
+    return allocation;
+  });
+
+  const shortage: ShortageItem[] = [...shortageMap.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([pieceMm, missingCount]) => ({
+      pieceMm,
+      missingCount,
+      reason: "INSUFFICIENT_STOCK_AFTER_ALLOCATION"
+    }));
+
+  const status: PlanStatus =
+    shortage.length === 0 ? "SUCCESS" : allocations.length > 0 ? "PARTIAL" : "FAIL";
+
+  const totalWasteMm = allocations.reduce((sum, item) => sum + wasteOf(item), 0);
+  const openedMm = usedBars.reduce((sum, bar) => sum + bar.originalMm, 0);
+  const sawCuts = usedBars.reduce((sum, bar) => sum + sawCutsOf(bar), 0);
+  const materialCost = roundMoney(costOf(openedMm, 0, costs));
+  const laborCost = roundMoney(costOf(0, sawCuts, costs));
+
+  return {
+    status,
+    cutList: summarizePieces(pieces),
+    allocations,
+    patterns: buildCutPatterns(allocations, params.kerfMm),
+    shortage,
+    stats: {
+      totalPieces: pieces.length,
+      totalUsedStocks: allocations.length,
+      totalWasteMm,
+      ...materialStatsOf(allocations, params),
+      materialCost,
+      laborCost,
+      totalCost: roundMoney(materialCost + laborCost)
+    }
+  };
+}
+
+/** Expands every line by its recipe; pieces whose formula comes out at zero or less are left out. */
+export function expandOrderToPieces(orderLines: OrderLineMm[]): TracedPieces {
+  const piecesMm: number[] = [];
+  const pieceTraces: PieceTrace[] = [];
+  const push = (pieceMm: number, trace: PieceTrace) => {
+    if (pieceMm > 0) {
+      piecesMm.push(pieceMm);
+      pieceTraces.push(trace);
+    }
+  };
+
+  orderLines.forEach((line, lineIdx) => {
+    const dimensions = { height: toNonNegativeInt(line.heightMm), width: toNonNegativeInt(line.widthMm) };
+    const qty = toNonNegativeInt(line.qty);
+    const orderLineRef = line.ref ?? String(lineIdx);
+    const source = line.orderId === undefined ? { orderLineRef } : { orderLineRef, orderId: line.orderId };
+    const unitPieces = (line.recipe ?? FRAME_RECIPE).pieces.map((piece) => ({
+      pieceMm: toNonNegativeInt(compilePieceFormula(piece.lengthFormula)(dimensions)),
+      count: toNonNegativeInt(piece.count),
+      trace: { ...source, role: piece.role }
+    }));
+
+    for (let unit = 0; unit < qty; unit += 1) {
+      for (const piece of unitPieces) {
+        for (let i = 0; i < piece.count; i += 1) {
+          push(piece.pieceMm, piece.trace);
+        }
+      }
+    }
+  });
+
+  return { piecesMm, pieceTraces };
+}
+
+/**
+ * Labels cuts and shortage with the order pieces they stand for. Solvers
+ * treat pieces of equal length as interchangeable, so the cuts of a length
+ * take that length's traces in order. Patterns are rebuilt to list them.
+ */
+export function attachPieceTraces<T extends CutPlanResult>(
+  result: T,
+  piecesMm: number[],
+  pieceTraces: PieceTrace[] | undefined,
+  kerfMm: number
+): T {
+  if (!pieceTraces || pieceTraces.length === 0) {
+    return result;
+  }
+
+  const tracesByLength = new Map<number, PieceTrace[]>();
+  piecesMm.forEach((pieceMm, i) => {
+    const trace = pieceTraces[i];
+    if (!trace) {
+      return;
+    }
+    const key = toNonNegativeInt(pieceMm);
+    const traces = tracesByLength.get(key) ?? [];
+    traces.push(trace);
+    tracesByLength.set(key, traces);
+  });
+
+  const allocations = result.allocations.map((allocation) => ({
+    ...allocation,
+    cuts: allocation.cuts.map((cut) => {
+      const trace = tracesByLength.get(cut.pieceMm)?.shift();
+      return trace ? { ...cut, ...trace } : cut;
+    })
+  }));
+  const shortage = result.shortage.map((item) => {
+    const traces = tracesByLength.get(item.pieceMm)?.splice(0, item.missingCount) ?? [];
+    return traces.length > 0 ? { ...item, pieces: traces } : item;
+  });
+
+  return { ...result, allocations, shortage, patterns: buildCutPatterns(allocations, kerfMm) };
+}
+
+export function expandInventory(items: InventoryItem[], params: PlanParams): MutableBar[] {
+  const bars: MutableBar[] = [];
+  for (const item of items) {
+    const qty = toNonNegativeInt(item.qty);
+    for (let i = 0; i < qty; i += 1) {
+      bars.push(createBar(item, params));
+    }
+  }
+
+  return bars;
+}
+
+export function createBar(item: InventoryItem, params: PlanParams): MutableBar {
+  const lengthMm = toNonNegativeInt(item.lengthMm);
+  const { startMm, endMm } = usableRangeOf(item, params);
+  const segments = segmentsOf(item, params).map((segment) => ({ ...segment, cursorMm: segment.startMm }));
+
+  return {
+    sourceId: item.id,
+    originalMm: lengthMm,
+    remainingMm: segments.reduce((sum, segment) => sum + segment.endMm - segment.startMm, 0),
+    remnant: item.remnant === true,
+    trimmedMm: lengthMm - (endMm - startMm),
+    usableEndMm: endMm,
+    defects: normalizeDefects(item.defects),
+    segments,
+    cuts: []
+  };
+}
+
+/** Clean stretches of a bar that pieces may be cut from, in bar order. */
+export function segmentsOf(
+  item: InventoryItem,
+  params: PlanParams
+): Array<{ startMm: number; endMm: number }> {
+  const { startMm, endMm } = usableRangeOf(item, params);
+  const segments: Array<{ startMm: number; endMm: number }> = [];
+  let cursorMm = startMm;
+
+  for (const defect of normalizeDefects(item.defects)) {
+    const defectEndMm = defect.offsetMm + defect.lengthMm;
+    if (defectEndMm <= cursorMm) {
+      continue;
+    }
+    if (defect.offsetMm >= endMm) {
+      break;
+    }
+    if (defect.offsetMm > cursorMm) {
+      segments.push({ startMm: cursorMm, endMm: defect.offsetMm });
+    }
+    cursorMm = defectEndMm;
+  }
+
+  if (endMm > cursorMm) {
+    segments.push({ startMm: cursorMm, endMm });
+  }
+
+  return segments;
+}
+
+export function longestSegmentOf(item: InventoryItem, params: PlanParams): number {
+  return Math.max(0, ...segmentsOf(item, params).map((segment) => segment.endMm - segment.startMm));
+}
+
+/** Factory bars lose their end trims; remnants were cut square by us and keep their full length. */
+function usableRangeOf(item: InventoryItem, params: PlanParams): { startMm: number; endMm: number } {
+  const lengthMm = toNonNegativeInt(item.lengthMm);
+  if (item.remnant === true) {
+    return { startMm: 0, endMm: lengthMm };
+  }
+  const startMm = Math.min(lengthMm, params.trimStartMm);
+  return { startMm, endMm: Math.max(startMm, lengthMm - params.trimEndMm) };
+}
+
+export function normalizeDefects(defects?: DefectZone[]): DefectZone[] {
+  return (defects ?? [])
+    .map((defect) => ({
+      offsetMm: toNonNegativeInt(defect.offsetMm),
+      lengthMm: toNonNegativeInt(defect.lengthMm)
+    }))
+    .filter((defect) => defect.lengthMm > 0)
+    .sort((a, b) => a.offsetMm - b.offsetMm);
+}
+
+/** Defects clipped to `[startMm, endMm)` and re-based so offsets start at `startMm`. */
+function defectsWithin(defects: DefectZone[], startMm: number, endMm: number): DefectZone[] {
+  const result: DefectZone[] = [];
+  for (const defect of defects) {
+    const clippedStart = Math.max(startMm, defect.offsetMm);
+    const clippedEnd = Math.min(endMm, defect.offsetMm + defect.lengthMm);
+    if (clippedEnd > clippedStart) {
+      result.push({ offsetMm: clippedStart - startMm, lengthMm: clippedEnd - clippedStart });
+    }
+  }
+  return result;
+}
+
+function longestCleanRun(lengthMm: number, defects: DefectZone[]): number {
+  return longestSegmentOf({ id: 0, lengthMm, qty: 1, remnant: true, defects }, normalizePlanParams());
+}
+
+export function toNonNegativeInt(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.max(0, Math.round(value));
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function wasteOf(allocation: Allocation): number {
+  return allocation.trimmedMm + allocation.skippedMm + (allocation.remnantKept ? 0 : allocation.remnantMm);
+}
+
+type MaterialStats = Pick<
+  CutPlanStats,
+  | "consumedMm"
+  | "utilizationPct"
+  | "keptRemnantCount"
+  | "keptRemnantMm"
+  | "kerfLossMm"
+  | "allowanceLossMm"
+  | "byStockLength"
+>;
+
+function materialStatsOf(allocations: Allocation[], params: PlanParams): MaterialStats {
+  let placedMm = 0;
+  let keptRemnantCount = 0;
+  let keptRemnantMm = 0;
+  let kerfLossMm = 0;
+  let allowanceLossMm = 0;
+  const byLength = new Map<number, StockLengthStats>();
+
+  for (const allocation of allocations) {
+    const keptMm = allocation.remnantKept ? allocation.remnantMm : 0;
+    if (allocation.remnantKept) {
+      keptRemnantCount += 1;
+      keptRemnantMm += keptMm;
+    }
+
+    for (const cut of allocation.cuts) {
+      // Tolerance is taken out of the allowance first.
+      const shortMm = cut.toleranceUsedMm ?? 0;
+      placedMm += cut.pieceMm;
+      allowanceLossMm += Math.max(0, params.allowanceMm - shortMm);
+      kerfLossMm += cut.effectiveMm - (cut.pieceMm + params.allowanceMm - shortMm);
+    }
+
+    const lengthMm = allocation.stock.lengthMm;
+    const entry = byLength.get(lengthMm) ?? {
+      stockLengthMm: lengthMm,
+      barsUsed: 0,
+      usedMm: 0,
+      wasteMm: 0,
+      keptRemnantMm: 0
+    };
+    entry.barsUsed += 1;
+    entry.usedMm += allocation.usedMm;
+    entry.wasteMm += wasteOf(allocation);
+    entry.keptRemnantMm += keptMm;
+    byLength.set(lengthMm, entry);
+  }
+
+  const openedMm = allocations.reduce((sum, allocation) => sum + allocation.stock.lengthMm, 0);
+  const consumedMm = openedMm - keptRemnantMm;
+
+  return {
+    consumedMm,
+    utilizationPct: consumedMm > 0 ? Math.round((placedMm / consumedMm) * 10_000) / 100 : 0,
+    keptRemnantCount,
+    keptRemnantMm,
+    kerfLossMm,
+    allowanceLossMm,
+    byStockLength: [...byLength.values()].sort((a, b) => a.stockLengthMm - b.stockLengthMm)
+  };
+}
+
+function emptyStats(totalPieces: number): CutPlanStats {
+  return {
+    totalPieces,
+    totalUsedStocks: 0,
+    totalWasteMm: 0,
+    consumedMm: 0,
+    utilizationPct: 0,
+    keptRemnantCount: 0,
+    keptRemnantMm: 0,
+    kerfLossMm: 0,
+    allowanceLossMm: 0,
+    byStockLength: [],
+    materialCost: 0,
+    laborCost: 0,
+    totalCost: 0
+  };
+}
+
+function summarizePieces(pieces: number[]): CutListItem[] {
+  const map = new Map<number, number>();
+  for (const piece of pieces) {
+    map.set(piece, (map.get(piece) ?? 0) + 1);
+  }
+
+  return [...map.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([pieceMm, count]) => ({ pieceMm, count }));
+}
+
+function countOf(values: number[], target: number): number {
+  let count = 0;
+  for (const value of values) {
+    if (value === target) {
+      count += 1;
+    }
+  }
+  return count;
+}
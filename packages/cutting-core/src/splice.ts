@@ -0,0 +1,144 @@
+import {
+  expandOrderToPieces,
+  fitsIn,
+  longestSegmentOf,
+  normalizePlanParams,
+  pieceFitOf,
+  toNonNegativeInt
+} from "./shared";
+import type {
+  CutPlanResult,
+  InventoryItem,
+  OrderLineMm,
+  PieceTrace,
+  PlanParams,
+  SpliceOptions,
+  SplicedPiece,
+  SpliceSegment
+} from "./types";
+
+/** Pieces handed to a solver once the over-long ones are replaced by their segments. */
+export type SplicedPieces = {
+  piecesMm: number[];
+  pieceTraces?: PieceTrace[];
+  /** Segment label of each entry of `piecesMm`; undefined for whole pieces. */
+  segments: Array<SpliceSegment | undefined>;
+  splices: SplicedPiece[];
+};
+
+/**
+ * Replaces each piece that fits no clean stock with the fewest equal segments
+ * that do, when `options` allow it. Pieces that cannot be split within
+ * `maxJoints` and `minSegmentMm` are kept whole, so the plan fails as before.
+ */
+export function splicePieces(
+  piecesMm: number[],
+  pieceTraces: PieceTrace[] | undefined,
+  inventoryItems: InventoryItem[],
+  params: PlanParams,
+  options?: SpliceOptions
+): SplicedPieces {
+  const unchanged: SplicedPieces = { piecesMm, pieceTraces, segments: [], splices: [] };
+  const maxJoints = toNonNegativeInt(options?.maxJoints ?? 0);
+  if (!options || maxJoints === 0) {
+    return unchanged;
+  }
+
+  const jointAllowanceMm = toNonNegativeInt(options.jointAllowanceMm);
+  const minSegmentMm = toNonNegativeInt(options.minSegmentMm);
+  const maxStock = Math.max(0, ...inventoryItems.map((item) => longestSegmentOf(item, params)));
+  const fits = (pieceMm: number) => fitsIn(maxStock, pieceFitOf(pieceMm, params));
+
+  const result: SplicedPieces = { piecesMm: [], pieceTraces: pieceTraces && [], segments: [], splices: [] };
+  piecesMm.forEach((rawMm, i) => {
+    const pieceMm = toNonNegativeInt(rawMm);
+    const trace = pieceTraces?.[i];
+    const segmentsMm = pieceMm > 0 && !fits(pieceMm) ? splitPiece(pieceMm, maxJoints, jointAllowanceMm, fits) : null;
+
+    if (!segmentsMm || segmentsMm.some((segmentMm) => segmentMm < minSegmentMm)) {
+      result.piecesMm.push(rawMm);
+      result.pieceTraces?.push(trace as PieceTrace);
+      result.segments.push(undefined);
+      return;
+    }
+
+    const spliceId = `S${result.splices.length + 1}`;
+    result.splices.push(trace ? { spliceId, pieceMm, segmentsMm, trace } : { spliceId, pieceMm, segmentsMm });
+    segmentsMm.forEach((segmentMm, segmentIdx) => {
+      result.piecesMm.push(segmentMm);
+      result.pieceTraces?.push(trace as PieceTrace);
+      result.segments.push({ spliceId, segment: segmentIdx + 1, segments: segmentsMm.length });
+    });
+  });
+
+  return result.splices.length > 0 ? result : unchanged;
+}
+
+/**
+ * Pieces the solvers get for `orderLines` once over-long pieces are spliced.
+ * Each line is expanded for one unit only, so large quantities stay cheap.
+ */
+export function countSplicedPieces(
+  orderLines: OrderLineMm[],
+  inventoryItems: InventoryItem[],
+  params?: Partial<PlanParams>,
+  options?: SpliceOptions
+): number {
+  const normalizedParams = normalizePlanParams(params);
+  return orderLines.reduce((sum, line) => {
+    const unit = expandOrderToPieces([{ ...line, qty: 1 }]);
+    const spliced = splicePieces(unit.piecesMm, undefined, inventoryItems, normalizedParams, options);
+    return sum + toNonNegativeInt(line.qty) * spliced.piecesMm.length;
+  }, 0);
+}
+
+/**
+ * Labels the cuts that are segments of a spliced piece. Segments of equal
+ * length are interchangeable, so cuts take that length's labels in order,
+ * the same way piece traces are handed out.
+ */
+export function attachSplices<T extends CutPlanResult>(result: T, spliced: SplicedPieces): T {
+  if (spliced.splices.length === 0) {
+    return result;
+  }
+
+  const labelsByLength = new Map<number, Array<SpliceSegment | undefined>>();
+  spliced.piecesMm.forEach((pieceMm, i) => {
+    const key = toNonNegativeInt(pieceMm);
+    const labels = labelsByLength.get(key) ?? [];
+    labels.push(spliced.segments[i]);
+    labelsByLength.set(key, labels);
+  });
+
+  const allocations = result.allocations.map((allocation) => ({
+    ...allocation,
+    cuts: allocation.cuts.map((cut) => {
+      const splice = labelsByLength.get(cut.pieceMm)?.shift();
+      return splice ? { ...cut, splice } : cut;
+    })
+  }));
+
+  return { ...result, allocations, splices: spliced.splices };
+}
+
+/** Segment lengths for the fewest joints that make every segment fit, or null. */
+function splitPiece(
+  pieceMm: number,
+  maxJoints: number,
+  jointAllowanceMm: number,
+  fits: (pieceMm: number) => boolean
+): number[] | null {
+  for (let joints = 1; joints <= maxJoints; joints += 1) {
+    const count = joints + 1;
+    const baseMm = Math.floor(pieceMm / count);
+    const extraMm = pieceMm - baseMm * count;
+    const segmentsMm = Array.from({ length: count }, (_, i) => {
+      const jointEnds = (i > 0 ? 1 : 0) + (i < count - 1 ? 1 : 0);
+      return baseMm + (i < extraMm ? 1 : 0) + jointEnds * jointAllowanceMm;
+    });
+    if (segmentsMm.every(fits)) {
+      return segmentsMm;
+    }
+  }
+  return null;
+}
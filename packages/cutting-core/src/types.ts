@@ -0,0 +1,373 @@
+export type DefectZone = {
+  /** Distance from the physical start of the bar. */
+  offsetMm: number;
+  lengthMm: number;
+};
+
+export type InventoryItem = {
+  id: number;
+  lengthMm: number;
+  qty: number;
+  /** Offcut kept from an earlier plan rather than a factory bar. */
+  remnant?: boolean;
+  /** Damaged spans no piece may overlap. */
+  defects?: DefectZone[];
+};
+
+export type PlanParams = {
+  kerfMm: number;
+  allowanceMm: number;
+  minRemnantMm: number;
+  toleranceMm: number;
+  /** Damaged or unsquared length cut off the start of every factory bar. */
+  trimStartMm: number;
+  /** Damaged or unsquared length cut off the end of every factory bar. */
+  trimEndMm: number;
+};
+
+export type PlanCosts = {
+  /** Price of one metre of stock; every bar a plan opens is charged in full. */
+  pricePerMeter: number;
+  /** Labour charged for each saw cut. */
+  costPerCut: number;
+};
+
+/** What the optimal solver minimises once the most pieces are placed. */
+export type PlanObjective = "WASTE" | "COST";
+
+export type PlanStatus = "SUCCESS" | "PARTIAL" | "FAIL";
+
+export type ShortageReason =
+  | "NO_STOCK_LONG_ENOUGH"
+  | "KERF_ALLOWANCE_MAKES_IT_IMPOSSIBLE"
+  | "INSUFFICIENT_STOCK_AFTER_ALLOCATION";
+
+/** Which part of the product a piece is cut for, e.g. `HEIGHT` or `CROSSBAR`. */
+export type PieceRole = string;
+
+export type RecipePiece = {
+  role: PieceRole;
+  /** Length in millimetres as arithmetic over `height` and `width`. */
+  lengthFormula: string;
+  /** Pieces of this role per unit of the product. */
+  count: number;
+};
+
+/** The pieces one unit of a product is cut into. */
+export type ProductRecipe = {
+  name: string;
+  pieces: RecipePiece[];
+};
+
+export type OrderLineMm = {
+  heightMm: number;
+  widthMm: number;
+  qty: number;
+  /** Caller's label for the line; its index in the order is used when omitted. */
+  ref?: string;
+  orderId?: string;
+  /** Defaults to a plain frame: two heights and two widths. */
+  recipe?: ProductRecipe;
+};
+
+/** Where an order piece comes from. */
+export type PieceTrace = {
+  orderLineRef: string;
+  orderId?: string;
+  role: PieceRole;
+};
+
+/**
+ * Lets a piece longer than any clean stock be cut as segments joined end to
+ * end. Each segment grows by `jointAllowanceMm` at every joint it meets.
+ */
+export type SpliceOptions = {
+  jointAllowanceMm: number;
+  /** Shortest segment, joint allowance included, that may be cut. */
+  minSegmentMm: number;
+  maxJoints: number;
+};
+
+/** Marks a cut as one segment of a spliced piece. */
+export type SpliceSegment = {
+  spliceId: string;
+  /** 1-based position along the finished piece. */
+  segment: number;
+  segments: number;
+};
+
+/** A piece too long for the stock, with the segments it is cut as. */
+export type SplicedPiece = {
+  spliceId: string;
+  pieceMm: number;
+  /** Segment lengths in joining order, joint allowances included. */
+  segmentsMm: number[];
+  trace?: PieceTrace;
+};
+
+/** Pieces and their traces, index for index. */
+export type TracedPieces = {
+  piecesMm: number[];
+  pieceTraces: PieceTrace[];
+};
+
+export type CutPiece = {
+  pieceMm: number;
+  /** Bar length this cut consumes, including allowance and kerf. */
+  effectiveMm: number;
+  /** Where the piece starts, measured from the physical start of the bar. */
+  offsetMm: number;
+  /** Set when the piece runs to the bar end or a defect, so no kerf follows it. */
+  trailingKerfSkipped?: boolean;
+  /** How far the piece (with allowance) falls short, within `toleranceMm`. */
+  toleranceUsedMm?: number;
+  /** Set when the plan was built from order lines or given `pieceTraces`. */
+  orderLineRef?: string;
+  orderId?: string;
+  role?: PieceRole;
+  splice?: SpliceSegment;
+};
+
+export type Allocation = {
+  stock: {
+    lengthMm: number;
+    sourceId: number;
+  };
+  cuts: CutPiece[];
+  usedMm: number;
+  remnantMm: number;
+  remnantKept: boolean;
+  /** End trim removed before cutting; always 0 for remnant stock. */
+  trimmedMm: number;
+  /** Length lost to defects and the clean gaps left before them. */
+  skippedMm: number;
+  /** Defects inside the remnant, with offsets measured from the remnant start. */
+  remnantDefects?: DefectZone[];
+};
+
+export type PatternCut = {
+  pieceMm: number;
+  /** Where the piece starts, measured from the physical start of the bar. */
+  offsetMm: number;
+  /** Where the saw kerf after the piece starts; absent when no kerf is taken. */
+  kerfOffsetMm?: number;
+  /** Order piece this cut stands for on each repeated bar, in bar order. */
+  pieces?: PieceTrace[];
+};
+
+/** Bars that are cut identically, so the saw operator sets them up once. */
+export type CutPattern = {
+  stockLengthMm: number;
+  /** Inventory items the repeated bars come from. */
+  sourceIds: number[];
+  trimmedMm: number;
+  /** Cuts in the order they are made along the bar. */
+  cuts: PatternCut[];
+  remnantMm: number;
+  remnantKept: boolean;
+  repeat: number;
+};
+
+export type ShortageItem = {
+  pieceMm: number;
+  missingCount: number;
+  reason: ShortageReason;
+  /** Order pieces left uncut, when the plan was traced. */
+  pieces?: PieceTrace[];
+};
+
+export type CutListItem = {
+  pieceMm: number;
+  count: number;
+};
+
+export type StockLengthStats = {
+  stockLengthMm: number;
+  barsUsed: number;
+  usedMm: number;
+  wasteMm: number;
+  keptRemnantMm: number;
+};
+
+export type CutPlanStats = {
+  totalPieces: number;
+  totalUsedStocks: number;
+  totalWasteMm: number;
+  /** Stock length that does not return to inventory: opened bars minus kept remnants. */
+  consumedMm: number;
+  /** Placed piece length as a share of `consumedMm`. */
+  utilizationPct: number;
+  keptRemnantCount: number;
+  keptRemnantMm: number;
+  /** Length turned into sawdust, including the short tail of a last cut that drops its kerf. */
+  kerfLossMm: number;
+  /** Finishing allowance cut beyond the nominal piece lengths. */
+  allowanceLossMm: number;
+  /** One entry per stock length opened, shortest first. */
+  byStockLength: StockLengthStats[];
+  materialCost: number;
+  laborCost: number;
+  totalCost: number;
+};
+
+export type CutPlanResult = {
+  status: PlanStatus;
+  cutList: CutListItem[];
+  allocations: Allocation[];
+  patterns: CutPattern[];
+  shortage: ShortageItem[];
+  stats: CutPlanStats;
+  /** Pieces cut as joined segments; absent when nothing was spliced. */
+  splices?: SplicedPiece[];
+};
+
+export type BuildCutPlanInput = {
+  inventoryItems: InventoryItem[];
+  orderLines: OrderLineMm[];
+  params?: Partial<PlanParams>;
+  costs?: Partial<PlanCosts>;
+  /** Pieces too long for any stock fail the plan unless splicing is allowed. */
+  splicing?: SpliceOptions;
+};
+
+export type BuildCutPlanForPiecesInput = {
+  inventoryItems: InventoryItem[];
+  piecesMm: number[];
+  /** Traces for `piecesMm`, index for index; cuts are labelled with them. */
+  pieceTraces?: PieceTrace[];
+  params?: Partial<PlanParams>;
+  costs?: Partial<PlanCosts>;
+  splicing?: SpliceOptions;
+};
+
+export type HeuristicStrategyId = "FFD" | "BFD" | "WFD" | "SMALLEST_BAR_FIRST" | "REMNANTS_FIRST";
+
+export type BuildCutPlanHeuristicInput = BuildCutPlanInput & {
+  strategy: HeuristicStrategyId;
+};
+
+export type BuildCutPlanHeuristicForPiecesInput = BuildCutPlanForPiecesInput & {
+  strategy: HeuristicStrategyId;
+};
+
+export type HeuristicPlanComparison = {
+  strategy: HeuristicStrategyId;
+  result: CutPlanResult;
+};
+
+export type OptimalSolverOptions = {
+  /** Upper bound on explored branch-and-bound nodes. */
+  maxNodes?: number;
+  /** Wall-clock budget for the search; the best plan found so far is returned when it runs out. */
+  timeBudgetMs?: number;
+};
+
+export type BuildCutPlanOptimalInput = BuildCutPlanInput & {
+  objective?: PlanObjective;
+  solver?: OptimalSolverOptions;
+};
+
+export type BuildCutPlanOptimalForPiecesInput = BuildCutPlanForPiecesInput & {
+  objective?: PlanObjective;
+  solver?: OptimalSolverOptions;
+};
+
+export type LocalSearchOptions = {
+  /**
+   * Seeds the move generator. A seeded search stops after `maxIterations`
+   * (20 000 by default), so equal seeds give equal plans.
+   */
+  seed?: number;
+  /**
+   * Wall-clock budget; the best plan found so far is returned when it runs out.
+   * With a seed it is only a safety stop (10 s by default), and a run it cuts
+   * short is replayed by passing its reported `iterations` as `maxIterations`.
+   */
+  timeBudgetMs?: number;
+  /** Upper bound on attempted moves. Runs that stop here are reproducible for their seed. */
+  maxIterations?: number;
+};
+
+export type LocalSearchReport = {
+  seed: number;
+  iterations: number;
+  stoppedBy: "ITERATIONS" | "TIME_BUDGET";
+  /** Stats of the BFD plan the search started from. */
+  initialStats: CutPlanStats;
+  /** Savings over the initial plan; positive numbers are better. */
+  improvement: {
+    placedPieces: number;
+    usedStocks: number;
+    wasteMm: number;
+    totalCost: number;
+  };
+};
+
+export type LocalSearchPlanResult = CutPlanResult & {
+  localSearch: LocalSearchReport;
+};
+
+export type BuildCutPlanLocalSearchInput = BuildCutPlanInput & {
+  objective?: PlanObjective;
+  search?: LocalSearchOptions;
+};
+
+export type BuildCutPlanLocalSearchForPiecesInput = BuildCutPlanForPiecesInput & {
+  objective?: PlanObjective;
+  search?: LocalSearchOptions;
+};
+
+export type PurchaseSuggestionInput = {
+  /** Pieces the current inventory could not cover. */
+  piecesMm: number[];
+  /** Factory lengths that can be ordered for this material. */
+  purchasableLengthsMm: number[];
+  params?: Partial<PlanParams>;
+  costs?: Partial<PlanCosts>;
+  /** `COST` buys the cheapest mix, `WASTE` the mix that opens the least length. */
+  objective?: PlanObjective;
+  solver?: OptimalSolverOptions;
+};
+
+export type PurchaseSuggestionItem = {
+  lengthMm: number;
+  qty: number;
+};
+
+export type PurchaseSuggestion = {
+  objective: PlanObjective;
+  items: PurchaseSuggestionItem[];
+  totalLengthMm: number;
+  wasteMm: number;
+  materialCost: number;
+  laborCost: number;
+  totalCost: number;
+  /** Pieces that even the purchasable lengths cannot hold. */
+  unfulfilled: ShortageItem[];
+};
+
+export type CutPlanViolationCode =
+  | "UNKNOWN_STOCK"
+  | "STOCK_LENGTH_MISMATCH"
+  | "STOCK_OVERUSED"
+  | "NEGATIVE_LENGTH"
+  | "USED_LENGTH_MISMATCH"
+  | "LENGTH_NOT_CONSERVED"
+  | "TRIM_MISMATCH"
+  | "CUT_LENGTH_INVALID"
+  | "CUT_OUTSIDE_CLEAN_STOCK"
+  | "CUTS_OVERLAP"
+  | "REMNANT_TOO_SHORT"
+  | "CUT_LIST_MISMATCH"
+  | "STATUS_MISMATCH"
+  | "STATS_MISMATCH";
+
+export type CutPlanViolation = {
+  code: CutPlanViolationCode;
+  message: string;
+  /** Index into `allocations` when the violation concerns one bar. */
+  allocationIndex?: number;
+  /** Index into that allocation's `cuts` when the violation concerns one cut. */
+  cutIndex?: number;
+  pieceMm?: number;
+};
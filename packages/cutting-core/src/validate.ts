@@ -0,0 +1,205 @@
+import { createBar, normalizePlanParams, toNonNegativeInt } from "./shared";
+import type {
+  Allocation,
+  CutPlanResult,
+  CutPlanViolation,
+  InventoryItem,
+  PlanParams,
+  PlanStatus
+} from "./types";
+
+const LENGTH_FIELDS = ["usedMm", "remnantMm", "trimmedMm", "skippedMm"] as const;
+
+/**
+ * Checks that a plan can be cut from `inventoryItems` as written: every bar
+ * exists and is opened no more often than it is stocked, its lengths add up,
+ * and its cuts sit in clean stock without overlapping. The cut list, shortage,
+ * status and stats must agree with the allocations. A consistent plan yields
+ * no violations.
+ */
+export function validateCutPlan(
+  plan: CutPlanResult,
+  inventoryItems: InventoryItem[],
+  params?: Partial<PlanParams>
+): CutPlanViolation[] {
+  const normalizedParams = normalizePlanParams(params);
+  const itemsById = new Map(inventoryItems.map((item) => [item.id, item]));
+  const openedById = new Map<number, number>();
+  const violations: CutPlanViolation[] = [];
+
+  plan.allocations.forEach((allocation, allocationIndex) => {
+    const { sourceId } = allocation.stock;
+    openedById.set(sourceId, (openedById.get(sourceId) ?? 0) + 1);
+    violations.push(
+      ...validateAllocation(allocation, allocationIndex, itemsById.get(sourceId), normalizedParams)
+    );
+  });
+
+  for (const [sourceId, opened] of openedById) {
+    const item = itemsById.get(sourceId);
+    if (item && opened > toNonNegativeInt(item.qty)) {
+      violations.push({
+        code: "STOCK_OVERUSED",
+        message: `Plan opens ${opened} bars of stock ${sourceId}, but only ${item.qty} are in stock`
+      });
+    }
+  }
+
+  violations.push(...validateSummary(plan));
+  return violations;
+}
+
+function validateAllocation(
+  allocation: Allocation,
+  allocationIndex: number,
+  item: InventoryItem | undefined,
+  params: PlanParams
+): CutPlanViolation[] {
+  const violations: CutPlanViolation[] = [];
+  const report = (
+    code: CutPlanViolation["code"],
+    message: string,
+    cut?: { cutIndex: number; pieceMm: number }
+  ) => {
+    violations.push({ code, message, allocationIndex, ...cut });
+  };
+
+  for (const field of LENGTH_FIELDS) {
+    if (!(allocation[field] >= 0)) {
+      report("NEGATIVE_LENGTH", `${field} is ${allocation[field]}`);
+    }
+  }
+
+  const cutMm = allocation.cuts.reduce((sum, cut) => sum + cut.effectiveMm, 0);
+  if (cutMm !== allocation.usedMm) {
+    report("USED_LENGTH_MISMATCH", `Cuts take ${cutMm} mm, but usedMm is ${allocation.usedMm}`);
+  }
+
+  const accountedMm = allocation.usedMm + allocation.skippedMm + allocation.remnantMm + allocation.trimmedMm;
+  if (accountedMm !== allocation.stock.lengthMm) {
+    report(
+      "LENGTH_NOT_CONSERVED",
+      `Used, skipped, remnant and trimmed length add up to ${accountedMm} mm on a ${allocation.stock.lengthMm} mm bar`
+    );
+  }
+
+  if (allocation.remnantKept && allocation.remnantMm < params.minRemnantMm) {
+    report(
+      "REMNANT_TOO_SHORT",
+      `Kept remnant of ${allocation.remnantMm} mm is shorter than the ${params.minRemnantMm} mm minimum`
+    );
+  }
+
+  if (!item) {
+    report("UNKNOWN_STOCK", `Stock ${allocation.stock.sourceId} is not in the inventory`);
+    return violations;
+  }
+  if (toNonNegativeInt(item.lengthMm) !== allocation.stock.lengthMm) {
+    report(
+      "STOCK_LENGTH_MISMATCH",
+      `Stock ${item.id} is ${item.lengthMm} mm, but the plan cuts a ${allocation.stock.lengthMm} mm bar`
+    );
+    return violations;
+  }
+
+  const bar = createBar(item, params);
+  if (bar.trimmedMm !== allocation.trimmedMm) {
+    report("TRIM_MISMATCH", `Bar should lose ${bar.trimmedMm} mm to end trims, but the plan trims ${allocation.trimmedMm} mm`);
+  }
+
+  allocation.cuts.forEach((cut, cutIndex) => {
+    const where = { cutIndex, pieceMm: cut.pieceMm };
+    const fullMm = cut.pieceMm + params.allowanceMm + params.kerfMm;
+    const shortestMm = Math.max(1, cut.pieceMm + params.allowanceMm - params.toleranceMm);
+    if (!(cut.pieceMm > 0) || cut.effectiveMm > fullMm || cut.effectiveMm < shortestMm) {
+      report("CUT_LENGTH_INVALID", `A ${cut.pieceMm} mm piece cannot take ${cut.effectiveMm} mm of the bar`, where);
+      return;
+    }
+
+    const endMm = cut.offsetMm + cut.effectiveMm;
+    const segment = bar.segments.find((candidate) => cut.offsetMm >= candidate.startMm && endMm <= candidate.endMm);
+    if (!segment) {
+      report("CUT_OUTSIDE_CLEAN_STOCK", `Cut at ${cut.offsetMm}-${endMm} mm runs into a trim or a defect`, where);
+      return;
+    }
+    // Only the last cut before a trim or defect may drop its kerf or use the tolerance.
+    if (cut.effectiveMm < fullMm && endMm !== segment.endMm) {
+      report(
+        "CUT_LENGTH_INVALID",
+        `A ${cut.pieceMm} mm piece takes only ${cut.effectiveMm} mm without reaching the end of clean stock`,
+        where
+      );
+    }
+  });
+
+  const ordered = allocation.cuts
+    .map((cut, cutIndex) => ({ cut, cutIndex }))
+    .sort((a, b) => a.cut.offsetMm - b.cut.offsetMm);
+  for (let i = 1; i < ordered.length; i += 1) {
+    const previous = ordered[i - 1].cut;
+    const { cut, cutIndex } = ordered[i];
+    if (cut.offsetMm < previous.offsetMm + previous.effectiveMm) {
+      report("CUTS_OVERLAP", `Cut at ${cut.offsetMm} mm overlaps the cut at ${previous.offsetMm} mm`, {
+        cutIndex,
+        pieceMm: cut.pieceMm
+      });
+    }
+  }
+
+  return violations;
+}
+
+function validateSummary(plan: CutPlanResult): CutPlanViolation[] {
+  const violations: CutPlanViolation[] = [];
+
+  const placed = new Map<number, number>();
+  for (const allocation of plan.allocations) {
+    for (const cut of allocation.cuts) {
+      placed.set(cut.pieceMm, (placed.get(cut.pieceMm) ?? 0) + 1);
+    }
+  }
+  const missing = new Map(plan.shortage.map((item) => [item.pieceMm, item.missingCount]));
+  const listed = new Map(plan.cutList.map((item) => [item.pieceMm, item.count]));
+
+  // A plan that fails before allocating reports only the piece that stopped it.
+  const failedUpfront = plan.status === "FAIL" && plan.allocations.length === 0;
+  const lengths = new Set([...placed.keys(), ...missing.keys(), ...listed.keys()]);
+  for (const pieceMm of [...lengths].sort((a, b) => a - b)) {
+    const accounted = (placed.get(pieceMm) ?? 0) + (missing.get(pieceMm) ?? 0);
+    const count = listed.get(pieceMm) ?? 0;
+    if (failedUpfront ? accounted > count : accounted !== count) {
+      violations.push({
+        code: "CUT_LIST_MISMATCH",
+        message: `Cut list asks for ${count} pieces of ${pieceMm} mm, but ${accounted} are placed or short`,
+        pieceMm
+      });
+    }
+  }
+
+  const expectedStatus: PlanStatus =
+    plan.shortage.length === 0 ? "SUCCESS" : plan.allocations.length > 0 ? "PARTIAL" : "FAIL";
+  if (plan.status !== expectedStatus) {
+    violations.push({
+      code: "STATUS_MISMATCH",
+      message: `Status is ${plan.status}, but the allocations and shortage make it ${expectedStatus}`
+    });
+  }
+
+  const totalPieces = plan.cutList.reduce((sum, item) => sum + item.count, 0);
+  const totalWasteMm = plan.allocations.reduce(
+    (sum, item) => sum + item.trimmedMm + item.skippedMm + (item.remnantKept ? 0 : item.remnantMm),
+    0
+  );
+  const mismatches = [
+    ["totalPieces", plan.stats.totalPieces, totalPieces],
+    ["totalUsedStocks", plan.stats.totalUsedStocks, plan.allocations.length],
+    ["totalWasteMm", plan.stats.totalWasteMm, totalWasteMm]
+  ] as const;
+  for (const [field, reported, actual] of mismatches) {
+    if (reported !== actual) {
+      violations.push({ code: "STATS_MISMATCH", message: `stats.${field} is ${reported}, expected ${actual}` });
+    }
+  }
+
+  return violations;
+}
@@ -43,13 +43,52 @@ describe("buildCutPlanBFD", () => {
     const result = buildCutPlanBFD({
       inventoryItems: [{ id: 1, lengthMm: 3000, qty: 5 }],
       orderLines: [{ heightMm: 3000, widthMm: 500, qty: 1 }],
-      params: { kerfMm: 3, allowanceMm: 0 }
+      params: { kerfMm: 3, allowanceMm: 2, toleranceMm: 0 }
     });
 
     expect(result.status).toBe("FAIL");
     expect(result.shortage[0].reason).toBe("KERF_ALLOWANCE_MAKES_IT_IMPOSSIBLE");
   });
 
+  it("skips the trailing kerf when a piece ends at the bar end", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [3000],
+      params: { kerfMm: 3, allowanceMm: 0, toleranceMm: 0 }
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.allocations[0].cuts).toEqual([
+      { pieceMm: 3000, effectiveMm: 3000, offsetMm: 0, trailingKerfSkipped: true }
+    ]);
+    expect(result.allocations[0].remnantMm).toBe(0);
+  });
+
+  it("lets a piece fall short of the bar end by up to toleranceMm", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2000, qty: 1 }],
+      piecesMm: [1000, 1002],
+      params: { kerfMm: 0, allowanceMm: 0, toleranceMm: 2 }
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.allocations[0].cuts).toEqual([
+      { pieceMm: 1002, effectiveMm: 1002, offsetMm: 0 },
+      { pieceMm: 1000, effectiveMm: 998, offsetMm: 1002, toleranceUsedMm: 2 }
+    ]);
+  });
+
+  it("does not stretch tolerance beyond toleranceMm", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2000, qty: 1 }],
+      piecesMm: [1000, 1003],
+      params: { kerfMm: 0, allowanceMm: 0, toleranceMm: 2 }
+    });
+
+    expect(result.status).toBe("PARTIAL");
+    expect(result.shortage[0]).toMatchObject({ pieceMm: 1000, missingCount: 1 });
+  });
+
   it("counts remnant below threshold as waste", () => {
     const result = buildCutPlanBFD({
       inventoryItems: [{ id: 1, lengthMm: 5000, qty: 1 }],
@@ -64,6 +103,102 @@ describe("buildCutPlanBFD", () => {
     expect(result.stats.totalWasteMm).toBe(200);
   });
 
+  it("trims factory bars before fitting cuts", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [1480, 1480],
+      params: { kerfMm: 0, allowanceMm: 0, toleranceMm: 0, trimStartMm: 20, trimEndMm: 30 }
+    });
+
+    expect(result.status).toBe("PARTIAL");
+    expect(result.allocations[0].trimmedMm).toBe(50);
+    expect(result.allocations[0].usedMm).toBe(1480);
+    expect(result.allocations[0].remnantMm).toBe(1470);
+  });
+
+  it("does not trim remnant stock", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2960, qty: 1, remnant: true }],
+      piecesMm: [1480, 1480],
+      params: { kerfMm: 0, allowanceMm: 0, toleranceMm: 0, trimStartMm: 20, trimEndMm: 30 }
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.allocations[0].trimmedMm).toBe(0);
+    expect(result.stats.totalWasteMm).toBe(0);
+  });
+
+  it("counts trimmed length as waste", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 1 }],
+      orderLines: [{ heightMm: 1200, widthMm: 1200, qty: 1 }],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 300, trimStartMm: 50, trimEndMm: 50 }
+    });
+
+    expect(result.allocations[0].remnantMm).toBe(100);
+    expect(result.stats.totalWasteMm).toBe(200);
+  });
+
+  it("prices opened stock per metre and labour per saw cut", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 2 }],
+      orderLines: [{ heightMm: 1200, widthMm: 1200, qty: 1 }],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 },
+      costs: { pricePerMeter: 12.5, costPerCut: 0.75 }
+    });
+
+    expect(result.stats.totalUsedStocks).toBe(1);
+    expect(result.stats.materialCost).toBe(62.5);
+    expect(result.stats.laborCost).toBe(3);
+    expect(result.stats.totalCost).toBe(65.5);
+  });
+
+  it("reports utilisation, losses and a breakdown per stock length", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 1 },
+        { id: 2, lengthMm: 2000, qty: 1 }
+      ],
+      piecesMm: [1500, 1000],
+      params: { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100, toleranceMm: 0 }
+    });
+
+    expect(result.stats).toMatchObject({
+      consumedMm: 2508,
+      utilizationPct: 99.68,
+      keptRemnantCount: 2,
+      keptRemnantMm: 2492,
+      kerfLossMm: 6,
+      allowanceLossMm: 2,
+      byStockLength: [
+        { stockLengthMm: 2000, barsUsed: 1, usedMm: 1504, wasteMm: 0, keptRemnantMm: 496 },
+        { stockLengthMm: 3000, barsUsed: 1, usedMm: 1004, wasteMm: 0, keptRemnantMm: 1996 }
+      ]
+    });
+  });
+
+  it("takes tolerance out of the allowance before counting losses", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 1000, qty: 1 }],
+      piecesMm: [1000],
+      params: { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100, toleranceMm: 1 }
+    });
+
+    expect(result.stats).toMatchObject({ consumedMm: 1000, utilizationPct: 100, kerfLossMm: 0, allowanceLossMm: 0 });
+  });
+
+  it("needs no saw cut after a piece that ends at the bar end", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2000, qty: 1 }],
+      piecesMm: [1000, 1000],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 },
+      costs: { costPerCut: 2 }
+    });
+
+    expect(result.stats.laborCost).toBe(2);
+    expect(result.stats.materialCost).toBe(0);
+  });
+
   it("handles many equal stock lengths", () => {
     const result = buildCutPlanBFD({
       inventoryItems: [{ id: 1, lengthMm: 2000, qty: 10 }],
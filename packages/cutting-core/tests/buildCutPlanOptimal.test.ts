@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCutPlanBFDForPieces,
+  buildCutPlanOptimal,
+  buildCutPlanOptimalForPieces
+} from "../src/index";
+
+describe("buildCutPlanOptimal", () => {
+  it("opens fewer bars than BFD when a tighter packing exists", () => {
+    const input = {
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 10 }],
+      piecesMm: [2300, 1900, 600, 1000, 2500, 2400, 1600, 400, 2300],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    };
+
+    const bfd = buildCutPlanBFDForPieces(input);
+    const optimal = buildCutPlanOptimalForPieces(input);
+
+    expect(bfd.stats.totalUsedStocks).toBe(4);
+    expect(optimal.status).toBe("SUCCESS");
+    expect(optimal.stats.totalUsedStocks).toBe(3);
+    expect(optimal.stats.totalWasteMm).toBe(0);
+    expect(optimal.cutList).toEqual(bfd.cutList);
+  });
+
+  it("keeps every allocation within its stock length", () => {
+    const result = buildCutPlanOptimal({
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 5 },
+        { id: 2, lengthMm: 7000, qty: 5 }
+      ],
+      orderLines: [
+        { heightMm: 1480, widthMm: 1020, qty: 3 },
+        { heightMm: 900, widthMm: 600, qty: 1 }
+      ],
+      params: { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100 }
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    for (const allocation of result.allocations) {
+      const cutTotal = allocation.cuts.reduce((sum, cut) => sum + cut.effectiveMm, 0);
+      expect(cutTotal).toBe(allocation.usedMm);
+      expect(allocation.usedMm + allocation.remnantMm).toBe(allocation.stock.lengthMm);
+    }
+    expect(result.stats.totalPieces).toBe(16);
+  });
+
+  it("prefers shorter stock when it is enough", () => {
+    const result = buildCutPlanOptimalForPieces({
+      inventoryItems: [
+        { id: 1, lengthMm: 7000, qty: 1 },
+        { id: 2, lengthMm: 3000, qty: 1 }
+      ],
+      piecesMm: [1400, 1400],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    });
+
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].stock.sourceId).toBe(2);
+  });
+
+  it("reports shortage like BFD when stock runs out", () => {
+    const result = buildCutPlanOptimalForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 1 }],
+      piecesMm: [1000, 1000, 1000, 1000, 1000, 1000, 1000, 1000],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    });
+
+    expect(result.status).toBe("PARTIAL");
+    expect(result.shortage).toEqual([
+      { pieceMm: 1000, missingCount: 3, reason: "INSUFFICIENT_STOCK_AFTER_ALLOCATION" }
+    ]);
+  });
+
+  it("falls back to the BFD plan when the node budget is exhausted", () => {
+    const input = {
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 10 }],
+      piecesMm: [2300, 1900, 600, 1000, 2500, 2400, 1600, 400, 2300],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    };
+
+    const result = buildCutPlanOptimalForPieces({ ...input, solver: { maxNodes: 1 } });
+
+    expect(result).toEqual(buildCutPlanBFDForPieces(input));
+  });
+
+  it("trades stock length for fewer saw cuts under the COST objective", () => {
+    const input = {
+      inventoryItems: [
+        { id: 1, lengthMm: 1100, qty: 1 },
+        { id: 2, lengthMm: 1200, qty: 1, remnant: true }
+      ],
+      piecesMm: [1000],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, trimStartMm: 10 },
+      costs: { pricePerMeter: 1, costPerCut: 5 }
+    };
+
+    const byWaste = buildCutPlanOptimalForPieces(input);
+    const byCost = buildCutPlanOptimalForPieces({ ...input, objective: "COST" });
+
+    expect(byWaste.allocations[0].stock.sourceId).toBe(1);
+    expect(byWaste.stats).toMatchObject({ materialCost: 1.1, laborCost: 10, totalCost: 11.1 });
+    expect(byCost.allocations[0].stock.sourceId).toBe(2);
+    expect(byCost.stats).toMatchObject({ materialCost: 1.2, laborCost: 5, totalCost: 6.2 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFDForPieces, combineCutPlans } from "../src/index";
+
+const params = { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100, toleranceMm: 0 };
+
+describe("combineCutPlans", () => {
+  it("sums the parts and recomputes utilisation over all of them", () => {
+    const frames = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 2 }],
+      piecesMm: [1400, 1400, 900],
+      params,
+      costs: { pricePerMeter: 2, costPerCut: 0.5 }
+    });
+    const sills = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 2, lengthMm: 6000, qty: 1 }],
+      piecesMm: [900, 2500],
+      params,
+      costs: { pricePerMeter: 5, costPerCut: 1 }
+    });
+
+    const combined = combineCutPlans([frames, sills]);
+
+    expect(combined.status).toBe("SUCCESS");
+    expect(combined.cutList).toEqual([
+      { pieceMm: 900, count: 2 },
+      { pieceMm: 1400, count: 2 },
+      { pieceMm: 2500, count: 1 }
+    ]);
+    expect(combined.allocations).toHaveLength(frames.allocations.length + sills.allocations.length);
+    expect(combined.stats.totalPieces).toBe(5);
+    expect(combined.stats.totalUsedStocks).toBe(frames.stats.totalUsedStocks + sills.stats.totalUsedStocks);
+    expect(combined.stats.consumedMm).toBe(frames.stats.consumedMm + sills.stats.consumedMm);
+    expect(combined.stats.utilizationPct).toBe(
+      Math.round((7100 / combined.stats.consumedMm) * 10_000) / 100
+    );
+    expect(combined.stats.totalCost).toBe(
+      Math.round((frames.stats.totalCost + sills.stats.totalCost) * 100) / 100
+    );
+    expect(combined.stats.byStockLength.map((entry) => entry.stockLengthMm)).toEqual([3000, 6000]);
+  });
+
+  it("is partial when one part falls short", () => {
+    const covered = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [1000],
+      params
+    });
+    const failed = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 2, lengthMm: 1000, qty: 1 }],
+      piecesMm: [2000],
+      params
+    });
+
+    const combined = combineCutPlans([covered, failed]);
+    expect(combined.status).toBe("PARTIAL");
+    expect(combined.shortage).toEqual(failed.shortage);
+    expect(combineCutPlans([failed]).status).toBe("FAIL");
+  });
+});
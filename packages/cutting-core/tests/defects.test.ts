@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFDForPieces, buildCutPlanOptimalForPieces } from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 };
+
+describe("defect zones", () => {
+  it("places cuts around a defect and reports offsets", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 1, defects: [{ offsetMm: 2000, lengthMm: 100 }] }],
+      piecesMm: [2000, 1500, 1400],
+      params
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    const [allocation] = result.allocations;
+    const placed = allocation.cuts.map((cut) => [cut.pieceMm, cut.offsetMm]);
+    expect(placed).toEqual([
+      [2000, 0],
+      [1500, 2100],
+      [1400, 3600]
+    ]);
+    expect(allocation.skippedMm).toBe(100);
+    expect(allocation.remnantMm).toBe(0);
+  });
+
+  it("never lets a piece overlap a defect", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1, defects: [{ offsetMm: 1000, lengthMm: 50 }] }],
+      piecesMm: [1500],
+      params
+    });
+
+    expect(result.allocations[0].cuts[0].offsetMm).toBe(1050);
+  });
+
+  it("fails when no clean stretch is long enough", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 2, defects: [{ offsetMm: 1400, lengthMm: 200 }] }],
+      piecesMm: [1500],
+      params
+    });
+
+    expect(result.status).toBe("FAIL");
+    expect(result.shortage[0].reason).toBe("NO_STOCK_LONG_ENOUGH");
+  });
+
+  it("carries defects that fall inside the kept remnant", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 1, defects: [{ offsetMm: 4000, lengthMm: 100 }] }],
+      piecesMm: [1000],
+      params
+    });
+
+    const [allocation] = result.allocations;
+    expect(allocation.remnantMm).toBe(4000);
+    expect(allocation.remnantKept).toBe(true);
+    expect(allocation.remnantDefects).toEqual([{ offsetMm: 3000, lengthMm: 100 }]);
+    expect(allocation.usedMm + allocation.skippedMm + allocation.remnantMm + allocation.trimmedMm).toBe(5000);
+  });
+
+  it("prefers a clean bar over a defective one when both fit in the optimal solver", () => {
+    const result = buildCutPlanOptimalForPieces({
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 1, defects: [{ offsetMm: 1000, lengthMm: 500 }] },
+        { id: 2, lengthMm: 3000, qty: 1 }
+      ],
+      piecesMm: [1500, 1500],
+      params
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].stock.sourceId).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCutPlanBFDForPieces,
+  buildCutPlanHeuristicForPieces,
+  compareHeuristicPlans,
+  HEURISTIC_STRATEGY_IDS
+} from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 };
+
+describe("heuristic strategies", () => {
+  it("matches buildCutPlanBFDForPieces for the BFD strategy", () => {
+    const input = {
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 2 },
+        { id: 2, lengthMm: 7000, qty: 2 }
+      ],
+      piecesMm: [2500, 1800, 1200, 900, 600],
+      params
+    };
+
+    expect(buildCutPlanHeuristicForPieces({ ...input, strategy: "BFD" })).toEqual(
+      buildCutPlanBFDForPieces(input)
+    );
+  });
+
+  it("first fit keeps filling the first opened bar", () => {
+    const result = buildCutPlanHeuristicForPieces({
+      strategy: "FFD",
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 3 }],
+      piecesMm: [2000, 1500, 1000],
+      params
+    });
+
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].cuts.map((cut) => cut.pieceMm)).toEqual([2000, 1500, 1000]);
+  });
+
+  it("worst fit spreads pieces over the opened bar with most room", () => {
+    const result = buildCutPlanHeuristicForPieces({
+      strategy: "WFD",
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 1 },
+        { id: 2, lengthMm: 7000, qty: 1 }
+      ],
+      piecesMm: [1000, 1000],
+      params
+    });
+
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].stock.sourceId).toBe(2);
+  });
+
+  it("smallest bar first uses short stock before long stock", () => {
+    const result = buildCutPlanHeuristicForPieces({
+      strategy: "SMALLEST_BAR_FIRST",
+      inventoryItems: [
+        { id: 1, lengthMm: 7000, qty: 1 },
+        { id: 2, lengthMm: 3000, qty: 1 }
+      ],
+      piecesMm: [2000, 2000],
+      params
+    });
+
+    expect(result.allocations.map((allocation) => allocation.stock.sourceId)).toEqual([1, 2]);
+    expect(result.allocations[1].cuts).toHaveLength(1);
+  });
+
+  it("remnants first consumes offcuts before factory bars", () => {
+    const result = buildCutPlanHeuristicForPieces({
+      strategy: "REMNANTS_FIRST",
+      inventoryItems: [
+        { id: 1, lengthMm: 1500, qty: 1 },
+        { id: 2, lengthMm: 2400, qty: 1, remnant: true }
+      ],
+      piecesMm: [1400],
+      params
+    });
+
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].stock.sourceId).toBe(2);
+  });
+
+  it("compares every registered strategy on the same order", () => {
+    const comparison = compareHeuristicPlans({
+      inventoryItems: [{ id: 1, lengthMm: 5000, qty: 4 }],
+      orderLines: [{ heightMm: 1200, widthMm: 800, qty: 2 }],
+      params
+    });
+
+    expect(comparison.map((entry) => entry.strategy)).toEqual(HEURISTIC_STRATEGY_IDS);
+    for (const entry of comparison) {
+      expect(entry.result.status).toBe("SUCCESS");
+      expect(entry.result.stats.totalPieces).toBe(8);
+    }
+  });
+});
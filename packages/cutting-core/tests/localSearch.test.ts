@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCutPlanBFD,
+  buildCutPlanBFDForPieces,
+  buildCutPlanLocalSearch,
+  buildCutPlanLocalSearchForPieces
+} from "../src/index";
+
+const counterexample = {
+  inventoryItems: [{ id: 1, lengthMm: 5000, qty: 10 }],
+  piecesMm: [2300, 1900, 600, 1000, 2500, 2400, 1600, 400, 2300],
+  params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+};
+
+describe("buildCutPlanLocalSearch", () => {
+  it("improves on the BFD plan and reports the gain", () => {
+    const result = buildCutPlanLocalSearchForPieces({
+      ...counterexample,
+      search: { seed: 7, maxIterations: 20_000, timeBudgetMs: 60_000 }
+    });
+
+    expect(buildCutPlanBFDForPieces(counterexample).stats.totalUsedStocks).toBe(4);
+    expect(result.status).toBe("SUCCESS");
+    expect(result.stats.totalUsedStocks).toBe(3);
+    expect(result.localSearch).toMatchObject({
+      seed: 7,
+      iterations: 20_000,
+      stoppedBy: "ITERATIONS",
+      improvement: { placedPieces: 0, usedStocks: 1 }
+    });
+    expect(result.localSearch.initialStats.totalUsedStocks).toBe(4);
+  });
+
+  it("gives identical output for the same seed", () => {
+    const input = {
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 10 },
+        { id: 2, lengthMm: 7000, qty: 10 }
+      ],
+      orderLines: [
+        { heightMm: 1480, widthMm: 1020, qty: 4 },
+        { heightMm: 1213, widthMm: 877, qty: 3 }
+      ],
+      search: { seed: 12345, maxIterations: 5_000, timeBudgetMs: 60_000 }
+    };
+
+    expect(buildCutPlanLocalSearch(input)).toEqual(buildCutPlanLocalSearch(input));
+  });
+
+  it("stops a seeded search on its iteration cap, not the clock", () => {
+    const input = { ...counterexample, search: { seed: 7 } };
+    const result = buildCutPlanLocalSearchForPieces(input);
+
+    expect(result.localSearch).toMatchObject({ iterations: 20_000, stoppedBy: "ITERATIONS" });
+    expect(buildCutPlanLocalSearchForPieces(input)).toEqual(result);
+  });
+
+  it("never returns a worse plan than BFD", () => {
+    const input = {
+      inventoryItems: [
+        { id: 1, lengthMm: 3000, qty: 4 },
+        { id: 2, lengthMm: 5000, qty: 2 }
+      ],
+      orderLines: [{ heightMm: 1400, widthMm: 900, qty: 3 }],
+      params: { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100 }
+    };
+
+    const bfd = buildCutPlanBFD(input);
+    const result = buildCutPlanLocalSearch({ ...input, search: { seed: 3, maxIterations: 2_000 } });
+
+    expect(result.shortage.reduce((sum, item) => sum + item.missingCount, 0)).toBeLessThanOrEqual(
+      bfd.shortage.reduce((sum, item) => sum + item.missingCount, 0)
+    );
+    expect(result.localSearch.improvement.placedPieces).toBeGreaterThanOrEqual(0);
+    for (const allocation of result.allocations) {
+      expect(allocation.usedMm + allocation.remnantMm).toBeLessThanOrEqual(allocation.stock.lengthMm);
+    }
+  });
+
+  it("stops when the time budget runs out", () => {
+    const result = buildCutPlanLocalSearchForPieces({
+      ...counterexample,
+      search: { seed: 1, timeBudgetMs: 0 }
+    });
+
+    expect(result.localSearch.stoppedBy).toBe("TIME_BUDGET");
+  });
+});
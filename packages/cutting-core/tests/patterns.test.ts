@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFD, buildCutPlanBFDForPieces } from "../src/index";
+
+describe("cut patterns", () => {
+  it("groups identical bars into one repeated pattern", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 10 }],
+      piecesMm: new Array<number>(12).fill(1480),
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    });
+
+    expect(result.allocations).toHaveLength(6);
+    expect(result.patterns).toEqual([
+      {
+        stockLengthMm: 3000,
+        sourceIds: [1],
+        trimmedMm: 0,
+        cuts: [
+          { pieceMm: 1480, offsetMm: 0 },
+          { pieceMm: 1480, offsetMm: 1480 }
+        ],
+        remnantMm: 40,
+        remnantKept: false,
+        repeat: 6
+      }
+    ]);
+  });
+
+  it("keeps bars with different layouts apart", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 7000, qty: 5 }],
+      orderLines: [{ heightMm: 1480, widthMm: 1020, qty: 3 }],
+      params: { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100 }
+    });
+
+    const barsInPatterns = result.patterns.reduce((sum, pattern) => sum + pattern.repeat, 0);
+    expect(barsInPatterns).toBe(result.allocations.length);
+    expect(result.patterns.length).toBeGreaterThan(1);
+  });
+
+  it("lists kerf positions after every full cut", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2006, qty: 1 }],
+      piecesMm: [1000, 1000],
+      params: { kerfMm: 3, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 }
+    });
+
+    expect(result.patterns[0].cuts).toEqual([
+      { pieceMm: 1000, offsetMm: 0, kerfOffsetMm: 1000 },
+      { pieceMm: 1000, offsetMm: 1003, kerfOffsetMm: 2003 }
+    ]);
+  });
+
+  it("omits the kerf when the last piece runs to the bar end", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 2003, qty: 1 }],
+      piecesMm: [1000, 1000],
+      params: { kerfMm: 3, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 }
+    });
+
+    expect(result.patterns[0].cuts).toEqual([
+      { pieceMm: 1000, offsetMm: 0, kerfOffsetMm: 1000 },
+      { pieceMm: 1000, offsetMm: 1003 }
+    ]);
+    expect(result.patterns[0].repeat).toBe(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFDForPieces, missingPiecesOf, suggestPurchase } from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 };
+
+describe("suggestPurchase", () => {
+  it("collects the pieces a partial plan could not cut", () => {
+    const plan = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [1500, 1500, 1500, 1500],
+      params
+    });
+
+    expect(plan.status).toBe("PARTIAL");
+    expect(missingPiecesOf(plan)).toEqual([1500, 1500]);
+  });
+
+  it("treats every piece as missing when no stock is long enough", () => {
+    const plan = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 5 }],
+      piecesMm: [4000, 1000],
+      params
+    });
+
+    expect(plan.status).toBe("FAIL");
+    expect(missingPiecesOf(plan).sort((a, b) => a - b)).toEqual([1000, 4000]);
+  });
+
+  it("buys the mix that opens the least stock length", () => {
+    const suggestion = suggestPurchase({
+      piecesMm: [2500, 2500, 2000],
+      purchasableLengthsMm: [3000, 5000, 6000],
+      params,
+      costs: { pricePerMeter: 2 },
+      objective: "WASTE"
+    });
+
+    expect(suggestion.items).toEqual([
+      { lengthMm: 5000, qty: 1 },
+      { lengthMm: 3000, qty: 1 }
+    ]);
+    expect(suggestion.totalLengthMm).toBe(8000);
+    expect(suggestion.materialCost).toBe(16);
+    expect(suggestion.unfulfilled).toEqual([]);
+  });
+
+  it("buys the cheapest mix by default, counting labour", () => {
+    const suggestion = suggestPurchase({
+      piecesMm: [1000, 1000],
+      purchasableLengthsMm: [1000, 2100],
+      params,
+      costs: { pricePerMeter: 1, costPerCut: 5 }
+    });
+
+    expect(suggestion.objective).toBe("COST");
+    expect(suggestion.items).toEqual([{ lengthMm: 1000, qty: 2 }]);
+    expect(suggestion.laborCost).toBe(0);
+    expect(suggestion.totalCost).toBe(2);
+  });
+
+  it("reports pieces longer than every purchasable length", () => {
+    const suggestion = suggestPurchase({
+      piecesMm: [7000, 1000],
+      purchasableLengthsMm: [6000],
+      params
+    });
+
+    expect(suggestion.items).toEqual([{ lengthMm: 6000, qty: 1 }]);
+    expect(suggestion.unfulfilled).toEqual([
+      { pieceMm: 7000, missingCount: 1, reason: "NO_STOCK_LONG_ENOUGH" }
+    ]);
+  });
+});
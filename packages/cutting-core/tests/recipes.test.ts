@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFD, compilePieceFormula, type ProductRecipe } from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 };
+
+describe("product recipes", () => {
+  it("evaluates formulas with precedence, parentheses and unary minus", () => {
+    const dims = { height: 1200, width: 800 };
+    expect(compilePieceFormula("width - 2 * 20")(dims)).toBe(760);
+    expect(compilePieceFormula("(height + width) / 2")(dims)).toBe(1000);
+    expect(compilePieceFormula("-20 + height")(dims)).toBe(1180);
+    expect(compilePieceFormula(" 12.5 ")(dims)).toBe(12.5);
+  });
+
+  it("rejects names and symbols outside the formula language", () => {
+    expect(() => compilePieceFormula("depth - 10")).toThrow('Unknown name "depth"');
+    expect(() => compilePieceFormula("width %")).toThrow('Unexpected "%" at position 7');
+    expect(() => compilePieceFormula("(width")).toThrow('Expected ")"');
+    expect(() => compilePieceFormula("width width")).toThrow('Unexpected "width"');
+    expect(() => compilePieceFormula("  ")).toThrow("Formula is empty");
+  });
+
+  it("expands order lines by their recipe", () => {
+    const crossbar: ProductRecipe = {
+      name: "CROSSBAR_FRAME",
+      pieces: [
+        { role: "HEIGHT", lengthFormula: "height", count: 2 },
+        { role: "WIDTH", lengthFormula: "width", count: 2 },
+        { role: "CROSSBAR", lengthFormula: "width - 40", count: 1 }
+      ]
+    };
+    const sill: ProductRecipe = { name: "SILL", pieces: [{ role: "SILL", lengthFormula: "width + 50", count: 1 }] };
+
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 6000, qty: 10 }],
+      orderLines: [
+        { heightMm: 1400, widthMm: 900, qty: 2, recipe: crossbar },
+        { heightMm: 0, widthMm: 1000, qty: 3, recipe: sill },
+        { heightMm: 500, widthMm: 400, qty: 1 }
+      ],
+      params
+    });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.cutList).toEqual([
+      { pieceMm: 400, count: 2 },
+      { pieceMm: 500, count: 2 },
+      { pieceMm: 860, count: 2 },
+      { pieceMm: 900, count: 4 },
+      { pieceMm: 1050, count: 3 },
+      { pieceMm: 1400, count: 4 }
+    ]);
+    const roles = result.allocations.flatMap((allocation) => allocation.cuts.map((cut) => cut.role));
+    expect(roles.filter((role) => role === "CROSSBAR")).toHaveLength(2);
+    expect(roles.filter((role) => role === "SILL")).toHaveLength(3);
+  });
+
+  it("leaves out pieces whose formula comes out at zero or less", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 2 }],
+      orderLines: [
+        {
+          heightMm: 1000,
+          widthMm: 30,
+          qty: 1,
+          recipe: {
+            name: "NARROW",
+            pieces: [
+              { role: "HEIGHT", lengthFormula: "height", count: 1 },
+              { role: "CROSSBAR", lengthFormula: "width - 40", count: 1 }
+            ]
+          }
+        }
+      ],
+      params
+    });
+
+    expect(result.cutList).toEqual([{ pieceMm: 1000, count: 1 }]);
+  });
+});
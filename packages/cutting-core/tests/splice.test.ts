@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCutPlanBFD,
+  buildCutPlanBFDForPieces,
+  buildCutPlanLocalSearchForPieces,
+  buildCutPlanOptimalForPieces,
+  countSplicedPieces,
+  validateCutPlan
+} from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 };
+const splicing = { jointAllowanceMm: 10, minSegmentMm: 500, maxJoints: 2 };
+const inventoryItems = [{ id: 1, lengthMm: 3000, qty: 6 }];
+
+describe("splicing", () => {
+  it("fails pieces longer than any stock unless splicing is allowed", () => {
+    const result = buildCutPlanBFDForPieces({ inventoryItems, piecesMm: [5000], params });
+
+    expect(result.status).toBe("FAIL");
+    expect(result.shortage[0].reason).toBe("NO_STOCK_LONG_ENOUGH");
+    expect(result).not.toHaveProperty("splices");
+  });
+
+  it("cuts a long piece as the fewest equal segments, each with its joint allowance", () => {
+    const result = buildCutPlanBFDForPieces({ inventoryItems, piecesMm: [5000, 7001, 1200], params, splicing });
+
+    expect(result.status).toBe("SUCCESS");
+    expect(result.splices).toEqual([
+      { spliceId: "S1", pieceMm: 5000, segmentsMm: [2510, 2510] },
+      { spliceId: "S2", pieceMm: 7001, segmentsMm: [2344, 2354, 2343] }
+    ]);
+    expect(validateCutPlan(result, inventoryItems, params)).toEqual([]);
+
+    const labels = result.allocations
+      .flatMap((allocation) => allocation.cuts)
+      .filter((cut) => cut.splice)
+      .map((cut) => `${cut.splice?.spliceId}:${cut.splice?.segment}/${cut.splice?.segments}:${cut.pieceMm}`)
+      .sort();
+    expect(labels).toEqual(["S1:1/2:2510", "S1:2/2:2510", "S2:1/3:2344", "S2:2/3:2354", "S2:3/3:2343"]);
+  });
+
+  it("keeps a piece whole when it needs too many joints or too short segments", () => {
+    const tooLong = buildCutPlanBFDForPieces({ inventoryItems, piecesMm: [9500], params, splicing });
+    expect(tooLong.status).toBe("FAIL");
+    expect(tooLong.shortage[0].reason).toBe("NO_STOCK_LONG_ENOUGH");
+
+    const tooShort = buildCutPlanBFDForPieces({
+      inventoryItems,
+      piecesMm: [3500],
+      params,
+      splicing: { ...splicing, minSegmentMm: 2000 }
+    });
+    expect(tooShort.status).toBe("FAIL");
+  });
+
+  it("counts spliced segments without expanding the quantity", () => {
+    const orderLines = [
+      {
+        heightMm: 0,
+        widthMm: 7001,
+        qty: 1000,
+        recipe: { name: "SILL", pieces: [{ role: "SILL", lengthFormula: "width", count: 1 }] }
+      },
+      { heightMm: 1000, widthMm: 800, qty: 10 }
+    ];
+
+    expect(countSplicedPieces(orderLines, inventoryItems, params)).toBe(1040);
+    expect(countSplicedPieces(orderLines, inventoryItems, params, splicing)).toBe(3040);
+  });
+
+  it("links segments to the traced order piece in every solver", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems,
+      orderLines: [
+        {
+          heightMm: 0,
+          widthMm: 4000,
+          qty: 1,
+          ref: "hall",
+          recipe: { name: "SILL", pieces: [{ role: "SILL", lengthFormula: "width", count: 1 }] }
+        }
+      ],
+      params,
+      splicing
+    });
+    expect(result.splices).toEqual([
+      {
+        spliceId: "S1",
+        pieceMm: 4000,
+        segmentsMm: [2010, 2010],
+        trace: { orderLineRef: "hall", role: "SILL" }
+      }
+    ]);
+    expect(result.allocations.flatMap((allocation) => allocation.cuts)).toMatchObject([
+      { pieceMm: 2010, orderLineRef: "hall", role: "SILL", splice: { spliceId: "S1" } },
+      { pieceMm: 2010, orderLineRef: "hall", role: "SILL", splice: { spliceId: "S1" } }
+    ]);
+
+    for (const plan of [
+      buildCutPlanOptimalForPieces({ inventoryItems, piecesMm: [5000], params, splicing }),
+      buildCutPlanLocalSearchForPieces({ inventoryItems, piecesMm: [5000], params, splicing, search: { maxIterations: 500 } })
+    ]) {
+      expect(plan.status).toBe("SUCCESS");
+      expect(plan.splices?.[0].segmentsMm).toEqual([2510, 2510]);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildCutPlanBFD, buildCutPlanBFDForPieces, buildCutPlanOptimal } from "../src/index";
+
+const params = { kerfMm: 0, allowanceMm: 0, minRemnantMm: 100, toleranceMm: 0 };
+
+describe("piece traces", () => {
+  it("labels every cut with its order line, order and frame side", () => {
+    const result = buildCutPlanBFD({
+      inventoryItems: [{ id: 1, lengthMm: 6000, qty: 10 }],
+      orderLines: [
+        { heightMm: 1400, widthMm: 900, qty: 2, ref: "kitchen", orderId: "order-1" },
+        { heightMm: 1200, widthMm: 600, qty: 1, orderId: "order-2" }
+      ],
+      params
+    });
+
+    const cuts = result.allocations.flatMap((allocation) => allocation.cuts);
+    const labels = cuts.map((cut) => `${cut.orderId}/${cut.orderLineRef}/${cut.role}/${cut.pieceMm}`);
+    const counts = new Map<string, number>();
+    for (const label of labels) {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+
+    expect(Object.fromEntries(counts)).toEqual({
+      "order-1/kitchen/HEIGHT/1400": 4,
+      "order-1/kitchen/WIDTH/900": 4,
+      "order-2/1/HEIGHT/1200": 2,
+      "order-2/1/WIDTH/600": 2
+    });
+  });
+
+  it("lists the traced piece of each repeated bar in its pattern", () => {
+    const result = buildCutPlanOptimal({
+      inventoryItems: [{ id: 1, lengthMm: 2300, qty: 4 }],
+      orderLines: [
+        { heightMm: 1400, widthMm: 900, qty: 1, ref: "a" },
+        { heightMm: 1400, widthMm: 900, qty: 1, ref: "b" }
+      ],
+      params
+    });
+
+    expect(result.patterns).toHaveLength(1);
+    const [pattern] = result.patterns;
+    expect(pattern.repeat).toBe(4);
+    for (const cut of pattern.cuts) {
+      expect(cut.pieces).toHaveLength(4);
+      const refs = cut.pieces?.map((piece) => piece.orderLineRef).sort();
+      expect(refs).toEqual(["a", "a", "b", "b"]);
+    }
+  });
+
+  it("names the pieces left in the shortage", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [1500, 1500, 1500],
+      pieceTraces: [
+        { orderLineRef: "0", orderId: "first", role: "WIDTH" },
+        { orderLineRef: "0", orderId: "first", role: "WIDTH" },
+        { orderLineRef: "0", orderId: "second", role: "WIDTH" }
+      ],
+      params
+    });
+
+    expect(result.status).toBe("PARTIAL");
+    expect(result.shortage[0].pieces).toEqual([{ orderLineRef: "0", orderId: "second", role: "WIDTH" }]);
+  });
+
+  it("leaves plans built from bare pieces unlabelled", () => {
+    const result = buildCutPlanBFDForPieces({
+      inventoryItems: [{ id: 1, lengthMm: 3000, qty: 1 }],
+      piecesMm: [1500],
+      params
+    });
+
+    expect(result.allocations[0].cuts[0]).not.toHaveProperty("role");
+    expect(result.patterns[0].cuts[0]).not.toHaveProperty("pieces");
+  });
+});
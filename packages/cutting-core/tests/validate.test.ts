@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCutPlanBFDForPieces,
+  buildCutPlanLocalSearchForPieces,
+  buildCutPlanOptimalForPieces,
+  compareHeuristicPlansForPieces,
+  type CutPlanResult,
+  validateCutPlan
+} from "../src/index";
+
+const params = { kerfMm: 3, allowanceMm: 1, minRemnantMm: 100, toleranceMm: 2, trimStartMm: 10, trimEndMm: 5 };
+
+const inventoryItems = [
+  { id: 1, lengthMm: 6000, qty: 2 },
+  { id: 2, lengthMm: 3000, qty: 3, defects: [{ offsetMm: 1200, lengthMm: 40 }] },
+  { id: 3, lengthMm: 1450, qty: 2, remnant: true }
+];
+
+const piecesMm = [2400, 1800, 1800, 1440, 1200, 1196, 950, 700, 700, 2994, 5985];
+
+function clone(plan: CutPlanResult): CutPlanResult {
+  return structuredClone(plan);
+}
+
+describe("validateCutPlan", () => {
+  it("accepts the plans every solver produces", () => {
+    const plans = [
+      buildCutPlanBFDForPieces({ inventoryItems, piecesMm, params }),
+      buildCutPlanOptimalForPieces({ inventoryItems, piecesMm, params, solver: { maxNodes: 5_000 } }),
+      buildCutPlanLocalSearchForPieces({ inventoryItems, piecesMm, params, search: { maxIterations: 2_000 } }),
+      ...compareHeuristicPlansForPieces({ inventoryItems, piecesMm, params }).map((entry) => entry.result),
+      buildCutPlanBFDForPieces({ inventoryItems, piecesMm: [9000, 100], params })
+    ];
+
+    for (const plan of plans) {
+      expect(validateCutPlan(plan, inventoryItems, params)).toEqual([]);
+    }
+  });
+
+  it("reports bars whose lengths do not add up", () => {
+    const plan = clone(buildCutPlanBFDForPieces({ inventoryItems, piecesMm, params }));
+    plan.allocations[0].usedMm += 10;
+    plan.allocations[1].remnantMm = -5;
+
+    const codes = validateCutPlan(plan, inventoryItems, params).map((violation) => [
+      violation.code,
+      violation.allocationIndex
+    ]);
+    expect(codes).toContainEqual(["USED_LENGTH_MISMATCH", 0]);
+    expect(codes).toContainEqual(["LENGTH_NOT_CONSERVED", 0]);
+    expect(codes).toContainEqual(["NEGATIVE_LENGTH", 1]);
+  });
+
+  it("reports cuts over a defect or on top of each other", () => {
+    const items = [{ id: 1, lengthMm: 3000, qty: 1, defects: [{ offsetMm: 1000, lengthMm: 50 }] }];
+    const plan = clone(buildCutPlanBFDForPieces({ inventoryItems: items, piecesMm: [900, 900], params }));
+    const [first, second] = plan.allocations[0].cuts;
+    second.offsetMm = first.offsetMm + 50;
+
+    expect(validateCutPlan(plan, items, params).map((violation) => violation.code)).toEqual(["CUTS_OVERLAP"]);
+
+    second.offsetMm = 950;
+    expect(validateCutPlan(plan, items, params)).toMatchObject([
+      { code: "CUT_OUTSIDE_CLEAN_STOCK", allocationIndex: 0, cutIndex: 1, pieceMm: 900 }
+    ]);
+  });
+
+  it("reports stock that is missing or opened too often", () => {
+    const plan = buildCutPlanBFDForPieces({ inventoryItems, piecesMm, params });
+
+    const fewer = inventoryItems.map((item) => (item.id === 1 ? { ...item, qty: 1 } : item));
+    expect(validateCutPlan(plan, fewer, params).map((violation) => violation.code)).toEqual(["STOCK_OVERUSED"]);
+
+    const without = inventoryItems.filter((item) => item.id !== 1);
+    expect(validateCutPlan(plan, without, params).map((violation) => violation.code)).toContain("UNKNOWN_STOCK");
+  });
+
+  it("reports a cut list, status or stats that disagree with the allocations", () => {
+    const plan = clone(buildCutPlanBFDForPieces({ inventoryItems, piecesMm: [2400, 1800], params }));
+    plan.cutList.push({ pieceMm: 500, count: 1 });
+    plan.stats.totalUsedStocks += 1;
+
+    const violations = validateCutPlan(plan, inventoryItems, params);
+    expect(violations).toContainEqual(expect.objectContaining({ code: "CUT_LIST_MISMATCH", pieceMm: 500 }));
+    expect(violations.map((violation) => violation.code)).toContain("STATS_MISMATCH");
+
+    plan.status = "PARTIAL";
+    expect(validateCutPlan(plan, inventoryItems, params).map((violation) => violation.code)).toContain(
+      "STATUS_MISMATCH"
+    );
+  });
+});